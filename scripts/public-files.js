@@ -0,0 +1,37 @@
+/**
+ * Serve the site's public/ folder to the app's modules under Node: `fetch` of an asset
+ * URL (`/kitchen-preview/...`) reads the file, as the deployed site would serve it.
+ */
+
+import fs from 'fs'
+import path from 'path'
+
+const MIME_TYPES = {
+	'.jpg': 'image/jpeg',
+	'.jpeg': 'image/jpeg',
+	'.png': 'image/png',
+	'.svg': 'image/svg+xml',
+	'.json': 'application/json',
+}
+
+/** Replace the global `fetch` for site paths under `base`; returns a function restoring it */
+export function servePublicFiles(publicDir, base) {
+	const resolvePublicFile = (url) => {
+		if (!url.startsWith(base)) return null
+		const file = path.join(publicDir, decodeURIComponent(url.slice(base.length).split(/[?#]/)[0]))
+		return file.startsWith(publicDir) && fs.existsSync(file) && fs.statSync(file).isFile() ? file : null
+	}
+
+	const nativeFetch = globalThis.fetch
+	globalThis.fetch = async (input, init) => {
+		const url = typeof input === 'string' ? input : input.url
+		if (!url.startsWith('/')) return nativeFetch(input, init)
+		const file = resolvePublicFile(url)
+		if (!file) return new Response(null, { status: 404 })
+		const type = MIME_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream'
+		return new Response(fs.readFileSync(file), { headers: { 'Content-Type': type } })
+	}
+	return () => {
+		globalThis.fetch = nativeFetch
+	}
+}
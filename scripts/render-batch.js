@@ -0,0 +1,233 @@
+/**
+ * Render every theme on every scene as PNG or SVG, with a manifest, using the same
+ * rendering core as the preview (src/lib/scene-renderer.ts) on a jsdom document whose
+ * canvases and images are @napi-rs/canvas ones, so projected surfaces are warped as in the
+ * app. A render that cannot be drawn as the app would is listed under `failures`.
+ *
+ * Run with: npm run render:batch -- [options]
+ *
+ *   --out <dir>        Output directory (default: renders)
+ *   --format <fmt>     png or svg (default: png)
+ *   --width <px>       Image width (default: 1600; with --height alone, follows the scene's aspect)
+ *   --height <px>      Image height (default: follows the scene's aspect)
+ *   --theme <id>       Only these themes (repeatable, or comma-separated)
+ *   --scene <id>       Only these scenes (repeatable, or comma-separated)
+ *   --verbose          Show the renderer's logging
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { parseArgs } from 'util'
+import { createServer } from 'vite'
+import { JSDOM, VirtualConsole } from 'jsdom'
+import { Resvg } from '@resvg/resvg-js'
+import { createCanvas, DOMMatrix, Image, Path2D } from '@napi-rs/canvas'
+import { servePublicFiles } from './public-files.js'
+
+const root = process.cwd()
+const publicDir = path.join(root, 'public')
+
+const usage = `Usage: npm run render:batch -- [--out dir] [--format png|svg] [--width px] [--height px] [--theme id] [--scene id] [--verbose]`
+
+const { values: args } = parseArgs({
+	options: {
+		out: { type: 'string', default: 'renders' },
+		format: { type: 'string', default: 'png' },
+		width: { type: 'string' },
+		height: { type: 'string' },
+		theme: { type: 'string', multiple: true, default: [] },
+		scene: { type: 'string', multiple: true, default: [] },
+		verbose: { type: 'boolean', default: false },
+		help: { type: 'boolean', default: false },
+	},
+})
+
+if (args.help) {
+	console.log(usage)
+	process.exit(0)
+}
+
+const fail = (message) => {
+	console.error(message)
+	console.error(usage)
+	process.exit(1)
+}
+
+const parseSize = (value, name) => {
+	if (value === undefined) return undefined
+	const size = Number(value)
+	if (!Number.isInteger(size) || size <= 0) fail(`--${name} must be a positive whole number of pixels`)
+	return size
+}
+
+const format = args.format.toLowerCase()
+if (format !== 'png' && format !== 'svg') fail(`Unknown format "${args.format}"`)
+const requestedWidth = parseSize(args.width, 'width')
+const requestedHeight = parseSize(args.height, 'height')
+const splitIds = (list) => list.flatMap((value) => value.split(',')).map((id) => id.trim()).filter(Boolean)
+const themeIds = splitIds(args.theme)
+const sceneIds = splitIds(args.scene)
+
+// The renderer logs every surface it draws; keep the output to progress and problems
+// (warnings still show)
+if (!args.verbose) console.log = () => {}
+const print = (...messages) => process.stdout.write(`${messages.join(' ')}\n`)
+
+// jsdom has no canvas: the renderer's canvases (created through the scene's document) are
+// @napi-rs/canvas ones instead
+function createDocument() {
+	const { window } = new JSDOM('<!DOCTYPE html>', { virtualConsole: new VirtualConsole() })
+	const { document } = window
+	// Tile layouts are drawn with the window's path and matrix classes
+	Object.assign(window, { Path2D, DOMMatrix })
+	const createElement = document.createElement.bind(document)
+	document.createElement = (name, options) =>
+		name.toLowerCase() === 'canvas' ? createCanvas(1, 1) : createElement(name, options)
+	return document
+}
+
+async function main() {
+	// Vite compiles the app's TypeScript modules (and their JSON imports) for Node
+	const vite = await createServer({
+		root,
+		logLevel: 'error',
+		appType: 'custom',
+		server: { middlewareMode: true, hmr: false },
+		optimizeDeps: { noDiscovery: true, include: [] },
+	})
+	// Asset URLs (`/kitchen-preview/...`) are served from public/, as on the site
+	const restoreFetch = servePublicFiles(publicDir, vite.config.base)
+
+	// Images are embedded as data URIs, so every output file stands alone
+	const dataUris = new Map()
+	const toDataUri = async (src) => {
+		if (src.startsWith('data:')) return src
+		if (!dataUris.has(src)) {
+			const response = await fetch(src)
+			if (!response.ok) throw new Error(`Failed to load ${src}`)
+			const type = response.headers.get('Content-Type') ?? 'application/octet-stream'
+			const buffer = Buffer.from(await response.arrayBuffer())
+			dataUris.set(src, `data:${type};base64,${buffer.toString('base64')}`)
+		}
+		return dataUris.get(src)
+	}
+	// Decoded, so they can be drawn onto canvases; `src` stays the data URI
+	const loadImage = async (src) => {
+		const image = new Image()
+		await new Promise((resolve, reject) => {
+			image.onload = resolve
+			image.onerror = () => reject(new Error(`Failed to decode ${src}`))
+			toDataUri(src).then((uri) => (image.src = uri), reject)
+		})
+		return image
+	}
+
+	try {
+		const content = await vite.ssrLoadModule('/src/lib/content.ts')
+		const renderer = await vite.ssrLoadModule('/src/lib/scene-renderer.ts')
+
+		const [textures, scenes, themes, categories] = await Promise.all([
+			content.loadTextures(),
+			content.loadScenes(),
+			content.loadThemes(),
+			content.loadCategories(),
+		])
+		const textureMap = new Map(textures.map((t) => [t.id, t]))
+
+		const unknown = [
+			...themeIds.filter((id) => !themes.some((t) => t.id === id)).map((id) => `theme "${id}"`),
+			...sceneIds.filter((id) => !scenes.some((s) => s.id === id)).map((id) => `scene "${id}"`),
+		]
+		if (unknown.length > 0) fail(`Unknown ${unknown.join(', ')}`)
+		const selectedThemes = themeIds.length > 0 ? themes.filter((t) => themeIds.includes(t.id)) : themes
+		const selectedScenes = sceneIds.length > 0 ? scenes.filter((s) => sceneIds.includes(s.id)) : scenes
+
+		const outDir = path.resolve(root, args.out)
+		fs.mkdirSync(outDir, { recursive: true })
+		const document = createDocument()
+
+		const renders = []
+		const failures = []
+		for (const scene of selectedScenes) {
+			let sceneSvgText
+			try {
+				sceneSvgText = await renderer.fetchSceneSvg(scene)
+			} catch (error) {
+				// Every theme of a scene without artwork fails
+				const message = error instanceof Error ? error.message : String(error)
+				selectedThemes.forEach((theme) => failures.push({ scene: scene.id, theme: theme.id, error: message }))
+				console.error(`✗ ${scene.id}:`, error)
+				continue
+			}
+			for (const theme of selectedThemes) {
+				const label = `${scene.id} × ${theme.id}`
+				try {
+					const selections = { ...content.getDefaultSelections(), ...theme.selections }
+					const options = content.resolveSelectionOptions(categories, selections, textureMap)
+					const svg = await renderer.renderScene(sceneSvgText, scene, options, {
+						document,
+						loadImage,
+						pixelRatio: 1,
+						strictProjection: true,
+					})
+
+					const { svg: exported, width: sceneWidth, height: sceneHeight } = renderer.cloneSceneSvg(svg)
+					let width = requestedWidth ?? (requestedHeight ? Math.round((requestedHeight * sceneWidth) / sceneHeight) : 1600)
+					let height = requestedHeight ?? Math.round((width * sceneHeight) / sceneWidth)
+					exported.setAttribute('width', String(width))
+					exported.setAttribute('height', String(height))
+					// Scene masks and artwork images still point at the site
+					for (const image of exported.querySelectorAll('image')) {
+						const href = image.getAttribute('href') ?? image.getAttributeNS('http://www.w3.org/1999/xlink', 'href')
+						if (!href || href.startsWith('data:')) continue
+						const uri = await toDataUri(href)
+						image.setAttribute('href', uri)
+						image.setAttributeNS('http://www.w3.org/1999/xlink', 'href', uri)
+					}
+					const markup = renderer.serializeScene(exported)
+
+					const file = path.join(scene.id, `${theme.id}.${format}`)
+					fs.mkdirSync(path.join(outDir, scene.id), { recursive: true })
+					if (format === 'svg') {
+						fs.writeFileSync(path.join(outDir, file), markup)
+					} else {
+						const png = new Resvg(markup, { background: '#ffffff', fitTo: { mode: 'original' } }).render()
+						width = png.width
+						height = png.height
+						fs.writeFileSync(path.join(outDir, file), png.asPng())
+					}
+
+					renders.push({
+						scene: scene.id,
+						sceneName: scene.name,
+						theme: theme.id,
+						themeName: theme.name,
+						file: file.split(path.sep).join('/'),
+						width,
+						height,
+						selections: Object.fromEntries(
+							Object.entries(options).filter(([, opt]) => opt).map(([surface, opt]) => [surface, opt.id]),
+						),
+					})
+					print(`✓ ${label} → ${file}`)
+				} catch (error) {
+					failures.push({ scene: scene.id, theme: theme.id, error: error instanceof Error ? error.message : String(error) })
+					console.error(`✗ ${label}:`, error)
+				}
+			}
+		}
+
+		const manifest = { generatedAt: new Date().toISOString(), format, renders, failures }
+		fs.writeFileSync(path.join(outDir, 'manifest.json'), `${JSON.stringify(manifest, null, '\t')}\n`)
+		print(`${renders.length} render(s) written to ${path.relative(root, outDir) || '.'}${failures.length ? `, ${failures.length} failed` : ''}`)
+		if (failures.length > 0) process.exitCode = 1
+	} finally {
+		restoreFetch()
+		await vite.close()
+	}
+}
+
+main().catch((error) => {
+	console.error('Batch render failed:', error)
+	process.exit(1)
+})
@@ -0,0 +1,69 @@
+/**
+ * Check the content in public/content the way the app loads it: ids, cross-references and
+ * asset paths. A file that is missing or cannot be parsed is an error; the bundled copy
+ * does not stand in for it. Exits with 1 when there are errors; warnings alone pass.
+ *
+ * Run with: npm run validate:content -- [options]
+ *
+ *   --strict      Fail on warnings too
+ *   --json        Print the issues as JSON
+ */
+
+import path from 'path'
+import { parseArgs } from 'util'
+import { createServer } from 'vite'
+import { servePublicFiles } from './public-files.js'
+
+const root = process.cwd()
+const publicDir = path.join(root, 'public')
+
+const { values: args } = parseArgs({
+	options: {
+		strict: { type: 'boolean', default: false },
+		json: { type: 'boolean', default: false },
+		help: { type: 'boolean', default: false },
+	},
+})
+
+if (args.help) {
+	console.log('Usage: npm run validate:content -- [--strict] [--json]')
+	process.exit(0)
+}
+
+async function main() {
+	const vite = await createServer({
+		root,
+		logLevel: 'error',
+		appType: 'custom',
+		server: { middlewareMode: true, hmr: false },
+		optimizeDeps: { noDiscovery: true, include: [] },
+	})
+	const restoreFetch = servePublicFiles(publicDir, vite.config.base)
+
+	try {
+		const content = await vite.ssrLoadModule('/src/lib/content.ts')
+		const { formatContentIssue } = await vite.ssrLoadModule('/src/lib/content-validation.ts')
+		const issues = await content.loadContentIssues()
+		const errors = issues.filter((issue) => issue.severity === 'error')
+		const warnings = issues.filter((issue) => issue.severity === 'warning')
+
+		if (args.json) {
+			console.log(JSON.stringify(issues, null, '\t'))
+		} else {
+			errors.forEach((issue) => console.error(`✗ ${formatContentIssue(issue)}`))
+			warnings.forEach((issue) => console.warn(`! ${formatContentIssue(issue)}`))
+			console.log(
+				issues.length === 0 ? 'Content is valid' : `${errors.length} error(s), ${warnings.length} warning(s)`,
+			)
+		}
+		if (errors.length > 0 || (args.strict && warnings.length > 0)) process.exitCode = 1
+	} finally {
+		restoreFetch()
+		await vite.close()
+	}
+}
+
+main().catch((error) => {
+	console.error('Content validation failed:', error)
+	process.exit(1)
+})
@@ -1,41 +1,59 @@
-import { useMemo, useState, useEffect, useRef } from 'react'
+import { Fragment, useMemo, useState, useEffect, useRef } from 'react'
 import './App.css'
 import {
-	getTexturesByCategory,
 	getDefaultScene,
-	getTextures,
-	loadTextures,
-	loadScenes,
-	getThemes,
-	loadThemes,
 	getThemeById,
-	getScenes,
 	getAssetUrl,
+	loadContentIssues,
+	getContentCheckIssue,
+	watchContent,
+	getDefaultSelections,
+	getGroupSurfaceId,
+	getSurfaceIds,
+	getSurfaceLabel,
+	resolveSelectionOptions,
+	splitSurfaceId,
 } from './lib/content'
 import { TextureSelector } from './components/texture-selector'
+import { SurfacePicker } from './components/surface-picker'
+import { CompareView } from './components/compare-view'
 import { ThemeSelector } from './components/theme-selector'
 import { KitchenPreviewCanvas } from './components/kitchen-preview-canvas'
 import { Dashboard } from './components/dashboard'
+import { TileLayoutControls } from './components/tile-layout-controls'
+import { FinishSelect } from './components/finish-select'
+import { TextureAdjustmentControls } from './components/texture-adjustment-controls'
+import { LightingControls } from './components/lighting-controls'
+import { CustomColorPicker } from './components/custom-color-picker'
+import { PhotoSceneEditor } from './components/photo-scene-editor'
+import { ContentIssuesBanner } from './components/content-issues-banner'
+import { useContent } from './lib/use-content'
 import { exportToPdf, captureSvgAsImage } from './lib/pdf-export'
-import { saveDesign, generateThumbnail, getAllSavedDesigns } from './lib/storage'
-import type { KitchenSelections, TextureOption, Theme, SavedDesign } from './types'
+import {
+	saveDesign,
+	generateThumbnail,
+	getAllSavedDesigns,
+	getRecentColors,
+	addRecentColor,
+	getPrivateScenes,
+	isCmsUser,
+} from './lib/storage'
+import type { ContentIssue } from './lib/content-validation'
+import type {
+	KitchenSelections,
+	KitchenSurfaceSettings,
+	Scene,
+	SceneLighting,
+	TextureAdjustments,
+	TextureCategory,
+	TextureFinish,
+	TextureOption,
+	Theme,
+	SavedDesign,
+	TileLayout,
+} from './types'
 import './App.css'
 
-function getDefaultSelections(): KitchenSelections {
-	const countertops = getTexturesByCategory('countertop')
-	const backsplash = getTexturesByCategory('backsplash')
-	const cabinet = getTexturesByCategory('cabinet')
-	const floor = getTexturesByCategory('floor')
-	const background = getTexturesByCategory('background')
-	return {
-		countertop: countertops[0]?.id ?? '',
-		backsplash: backsplash[0]?.id ?? '',
-		cabinet: cabinet[0]?.id ?? '',
-		floor: floor[0]?.id ?? '',
-		background: background[0]?.id ?? '',
-	}
-}
-
 function App() {
 	// Check if app has expired (January 31 or later)
 	// const checkExpiration = () => {
@@ -55,15 +73,25 @@ function App() {
 	// 	)
 	// }
 
-	const [contentReady, setContentReady] = useState(false)
+	// Bundled content until the site's has loaded; CMS changes arrive without a page reload
+	const content = useContent()
+	useEffect(() => watchContent(), [])
+
+	// Content editors (logged in to the CMS, or running the dev server) are told what is broken
+	const [contentIssues, setContentIssues] = useState<ContentIssue[]>([])
 	useEffect(() => {
-		Promise.all([loadTextures(), loadScenes(), loadThemes()]).then(() =>
-			setContentReady(true),
-		)
-	}, [])
+		if (content.loaded && (import.meta.env.DEV || isCmsUser())) {
+			loadContentIssues()
+				.then(setContentIssues)
+				.catch((error) => setContentIssues([getContentCheckIssue(error)]))
+		}
+	}, [content.version, content.loaded])
 
 	const [selectedSceneId, setSelectedSceneId] = useState<string | null>(null)
-	const scenes = useMemo(() => getScenes(), [contentReady])
+	// Scenes of the user's own photos, listed after the content's
+	const [privateScenes, setPrivateScenes] = useState(getPrivateScenes)
+	const scenes = useMemo(() => [...content.scenes, ...privateScenes], [content.scenes, privateScenes])
+	const categories = content.categories
 	const scene = useMemo(() => {
 		if (!scenes.length) return getDefaultScene()
 		if (selectedSceneId) {
@@ -75,37 +103,47 @@ function App() {
 	const [selections, setSelections] = useState<KitchenSelections>(
 		getDefaultSelections,
 	)
+	const [surfaceSettings, setSurfaceSettings] = useState<KitchenSurfaceSettings>({})
+	const [lighting, setLighting] = useState<SceneLighting | undefined>(undefined)
+	// Categories the current scene has surfaces for (null until the scene has loaded)
+	const [sceneCategories, setSceneCategories] = useState<TextureCategory[] | null>(null)
 	const [selectedThemeId, setSelectedThemeId] = useState<string | null>(null)
+	// Surface picked on the preview, with the point the picker opens at
+	const [pickedSurface, setPickedSurface] = useState<{
+		surface: TextureCategory
+		anchor: { x: number; y: number }
+	} | null>(null)
 
 	// Apply Classic Wood theme by default when content is ready (only if no design was loaded)
 	const [hasLoadedDesign, setHasLoadedDesign] = useState(false)
 	useEffect(() => {
-		if (contentReady && !hasLoadedDesign) {
+		if (content.loaded && !hasLoadedDesign) {
 			const defaultTheme = getThemeById('classic-wood')
 			if (defaultTheme) {
-				setSelections({
-					countertop: defaultTheme.countertop,
-					backsplash: defaultTheme.backsplash,
-					cabinet: defaultTheme.cabinet,
-					floor: defaultTheme.floor,
-					background: defaultTheme.background,
-				})
+				setSelections({ ...getDefaultSelections(), ...defaultTheme.selections })
 				setSelectedThemeId('classic-wood')
 			}
 		}
-	}, [contentReady, hasLoadedDesign])
+	}, [content.loaded, hasLoadedDesign])
 	const svgRef = useRef<SVGSVGElement | null>(null)
 	const [isExporting, setIsExporting] = useState(false)
 	const [activeTab, setActiveTab] = useState<'themes' | 'colors' | 'textures'>('themes')
 	const [view, setView] = useState<'dashboard' | 'editor'>('dashboard')
 	const [showSaveModal, setShowSaveModal] = useState(false)
+	const [showCompare, setShowCompare] = useState(false)
 	const [saveName, setSaveName] = useState('')
 	const [isSaving, setIsSaving] = useState(false)
+	const [recentColors, setRecentColors] = useState(getRecentColors)
+	// Category the preview's eyedropper is picking a colour for
+	const [pickingColorFor, setPickingColorFor] = useState<TextureCategory | null>(null)
+	const recentColorTimerRef = useRef<number>()
+	// Open while uploading a photo (no scene) or painting the masks of one
+	const [photoEditor, setPhotoEditor] = useState<{ scene?: Scene } | null>(null)
 
 	// Preload all texture images when textures tab becomes active
 	useEffect(() => {
-		if (activeTab === 'textures' && contentReady) {
-			const textureOptions = getTextures().filter(t => t.type === 'texture')
+		if (activeTab === 'textures' && content.loaded) {
+			const textureOptions = content.textures.filter(t => t.type === 'texture')
 			console.log(`[App] Preloading ${textureOptions.length} texture images...`)
 			
 			const preloadPromises = textureOptions.map(opt => {
@@ -124,13 +162,11 @@ function App() {
 				console.log(`[App] Successfully preloaded ${textureOptions.length} texture images`)
 			})
 		}
-	}, [activeTab, contentReady])
+	}, [activeTab, content.loaded, content.textures])
 
-	// Create textureMap AFTER textures are loaded to ensure it includes all textures
+	// Rebuilt whenever the content is loaded or refreshed, so it always has every texture
 	const textureMap = useMemo(() => {
-		// Use getTextures() which will use cachedTextures if available (from loadTextures)
-		// or fall back to bundled textures
-		const list = getTextures()
+		const list = content.textures
 		const map = new Map<string, TextureOption>(list.map((t) => [t.id, t]))
 		
 		// Debug: Log texture types
@@ -143,21 +179,25 @@ function App() {
 			byType: textureTypes,
 			sampleTexture: list.find(t => t.type === 'texture'),
 			sampleColor: list.find(t => t.type === 'color'),
-			contentReady
+			contentVersion: content.version
 		})
 		
 		return map
-	}, [contentReady]) // Depend on contentReady to rebuild when textures are loaded
+	}, [content.textures])
+
+	// Each category's options (all, colours only, images only), listed again only when the
+	// textures change, so the selectors' filtering and image preloading don't rerun every render
+	const categoryOptions = useMemo(() => {
+		const byCategory = (type?: TextureOption['type']): Record<TextureCategory, TextureOption[]> =>
+			Object.fromEntries(
+				categories.map((c) => [c.id, content.textures.filter((t) => t.category === c.id && (!type || t.type === type))]),
+			)
+		return { all: byCategory(), color: byCategory('color'), texture: byCategory('texture') }
+	}, [content.textures, categories])
 
 	const selectionOptions = useMemo(
 		() => {
-			const options = {
-				countertop: textureMap.get(selections.countertop),
-				backsplash: textureMap.get(selections.backsplash),
-				cabinet: textureMap.get(selections.cabinet),
-				floor: textureMap.get(selections.floor),
-				background: textureMap.get(selections.background),
-			}
+			const options = resolveSelectionOptions(categories, selections, textureMap)
 			
 			// Debug logging
 			if (options.countertop) {
@@ -179,36 +219,70 @@ function App() {
 			
 			return options
 		},
-		[selections, textureMap],
+		[selections, textureMap, categories],
 	)
 
 	const themes = useMemo(() => {
-		// Use getThemes() which will use cachedThemes if available (from loadThemes)
-		// or fall back to bundled themes
-		const themeList = getThemes()
+		const themeList = content.themes
 		console.log('[App] Themes loaded:', {
 			total: themeList.length,
 			textureThemes: themeList.filter(t => t.id.startsWith('texture-')).length,
 			sampleTheme: themeList.find(t => t.id.startsWith('texture-')),
-			contentReady
+			contentVersion: content.version
 		})
 		return themeList
-	}, [contentReady])
+	}, [content.themes])
+
+	// A picker left open belongs to the previous scene's surfaces
+	useEffect(() => setPickedSurface(null), [scene?.id])
+
+	const surfaceLabels = useMemo(
+		() => Object.fromEntries(getSurfaceIds(categories).map((id) => [id, getSurfaceLabel(categories, id)])),
+		[categories],
+	)
+
+	// Designs are saved from the editor and deleted on the dashboard, so switching views rereads them
+	const savedDesigns = useMemo(() => getAllSavedDesigns(), [view])
 
 	const handleSelect =
-		(category: keyof KitchenSelections) => (id: string) => {
+		(category: TextureCategory) => (id: string) => {
 			setSelections((prev) => ({ ...prev, [category]: id }))
 			setSelectedThemeId(null)
 		}
 
+	// Custom colours join the recent ones once the user settles on one, not on every step of a drag
+	const handleCustomColor =
+		(category: TextureCategory) => (color: string) => {
+			handleSelect(category)(color)
+			window.clearTimeout(recentColorTimerRef.current)
+			recentColorTimerRef.current = window.setTimeout(() => setRecentColors(addRecentColor(color)), 800)
+		}
+
+	const handleColorPick = (color: string | null) => {
+		if (color && pickingColorFor) {
+			handleSelect(pickingColorFor)(color)
+			setRecentColors(addRecentColor(color))
+		}
+		setPickingColorFor(null)
+	}
+
+	const handleLayoutChange =
+		(category: TextureCategory) => (layout: Partial<TileLayout> | undefined) => {
+			setSurfaceSettings((prev) => ({ ...prev, [category]: { ...prev[category], layout } }))
+		}
+
+	const handleFinishChange =
+		(category: TextureCategory) => (finish: TextureFinish | undefined) => {
+			setSurfaceSettings((prev) => ({ ...prev, [category]: { ...prev[category], finish } }))
+		}
+
+	const handleAdjustmentsChange =
+		(category: TextureCategory) => (adjustments: TextureAdjustments | undefined) => {
+			setSurfaceSettings((prev) => ({ ...prev, [category]: { ...prev[category], adjustments } }))
+		}
+
 	const handleThemeSelect = (theme: Theme) => {
-		setSelections({
-			countertop: theme.countertop,
-			backsplash: theme.backsplash,
-			cabinet: theme.cabinet,
-			floor: theme.floor,
-			background: theme.background,
-		})
+		setSelections({ ...getDefaultSelections(), ...theme.selections })
 		setSelectedThemeId(theme.id)
 	}
 
@@ -222,7 +296,10 @@ function App() {
 
 			await exportToPdf({
 				previewImage,
+				categories,
 				selections: selectionOptions,
+				surfaceSettings,
+				lighting,
 				selectedTheme,
 				sceneName: scene?.name || 'Kitchen',
 			})
@@ -246,6 +323,8 @@ function App() {
 				scene?.id || '',
 				selectedThemeId,
 				thumbnail,
+				surfaceSettings,
+				lighting,
 			)
 			setShowSaveModal(false)
 			setSaveName('')
@@ -259,7 +338,10 @@ function App() {
 	}
 
 	const handleLoadDesign = (design: SavedDesign) => {
-		setSelections(design.selections)
+		// Categories added since the design was saved start from their defaults
+		setSelections({ ...getDefaultSelections(), ...design.selections })
+		setSurfaceSettings(design.surfaceSettings ?? {})
+		setLighting(design.lighting)
 		setSelectedSceneId(design.sceneId)
 		setSelectedThemeId(design.themeId)
 		setHasLoadedDesign(true)
@@ -268,12 +350,117 @@ function App() {
 
 	const handleNewDesign = () => {
 		setSelections(getDefaultSelections())
+		setSurfaceSettings({})
+		setLighting(undefined)
 		setSelectedSceneId(null)
 		setSelectedThemeId(null)
 		setHasLoadedDesign(false)
 		setView('editor')
 	}
 
+	const handlePhotoSceneSaved = (saved: Scene) => {
+		setPrivateScenes(getPrivateScenes())
+		setSelectedSceneId(saved.id)
+		setPhotoEditor(null)
+	}
+
+	const handlePhotoSceneDeleted = (sceneId: string) => {
+		setPrivateScenes(getPrivateScenes())
+		if (selectedSceneId === sceneId) setSelectedSceneId(null)
+		setPhotoEditor(null)
+	}
+
+	// One selector per category with options of this type, plus tile controls where they apply
+	const renderCategorySelectors = (type: TextureOption['type']) =>
+		categories.map((category) => {
+			const options = categoryOptions[type][category.id]
+			if (options.length === 0) return null
+			return (
+				<Fragment key={category.id}>
+					<TextureSelector
+						title={category.label}
+						options={options}
+						selectedId={selections[category.id] ?? ''}
+						onSelect={handleSelect(category.id)}
+						unavailable={sceneCategories ? !sceneCategories.includes(category.id) : false}
+						groupBy={type === 'texture' ? 'material' : 'none'}
+					/>
+					{category.groups?.map((group) => {
+						const id = getGroupSurfaceId(category.id, group.id)
+						return (
+							<TextureSelector
+								key={id}
+								title={`${category.label} – ${group.label}`}
+								options={options}
+								selectedId={selections[id] ?? ''}
+								onSelect={handleSelect(id)}
+								unavailable={sceneCategories ? !sceneCategories.includes(id) : false}
+								inherit={{ label: `Same as ${category.label.toLowerCase()}`, option: selectionOptions[category.id] }}
+								groupBy={type === 'texture' ? 'material' : 'none'}
+							/>
+						)
+					})}
+					{type === 'color' && (
+						<CustomColorPicker
+							title={`Custom ${category.label.toLowerCase()} colour`}
+							category={category.id}
+							value={selections[category.id]}
+							recentColors={recentColors}
+							onChange={handleCustomColor(category.id)}
+							picking={pickingColorFor === category.id}
+							onPickToggle={() => setPickingColorFor((prev) => (prev === category.id ? null : category.id))}
+						/>
+					)}
+					<FinishSelect
+						title={`${category.label} finish`}
+						category={category.id}
+						option={selectionOptions[category.id]}
+						value={surfaceSettings[category.id]?.finish}
+						onChange={handleFinishChange(category.id)}
+					/>
+					{type === 'texture' && (
+						<TextureAdjustmentControls
+							title={`${category.label} adjustments`}
+							category={category.id}
+							option={selectionOptions[category.id]}
+							value={surfaceSettings[category.id]?.adjustments}
+							onChange={handleAdjustmentsChange(category.id)}
+						/>
+					)}
+					{category.tileable && (
+						<TileLayoutControls
+							title={`${category.label} layout`}
+							category={category.id}
+							option={selectionOptions[category.id]}
+							value={surfaceSettings[category.id]?.layout}
+							onChange={handleLayoutChange(category.id)}
+						/>
+					)}
+				</Fragment>
+			)
+		})
+
+	// Picker for a surface clicked on the preview; groups can follow their category again
+	const renderSurfacePicker = (surface: TextureCategory, anchor: { x: number; y: number }) => {
+		const [categoryId, group] = splitSurfaceId(surface)
+		return (
+			<SurfacePicker
+				key={`${surface}:${anchor.x},${anchor.y}`}
+				title={surfaceLabels[surface] ?? surface}
+				anchor={anchor}
+				options={categoryOptions.all[categoryId] ?? []}
+				selectedId={selections[surface] ?? ''}
+				onSelect={handleSelect(surface)}
+				inherit={
+					group
+						? { label: `Same as ${(surfaceLabels[categoryId] ?? categoryId).toLowerCase()}`, option: selectionOptions[categoryId] }
+						: undefined
+				}
+				onClose={() => setPickedSurface(null)}
+			/>
+		)
+	}
+
 	if (!scene) {
 		return (
 			<div className="app app--error">
@@ -283,11 +470,11 @@ function App() {
 	}
 
 	if (view === 'dashboard') {
-		const savedDesigns = getAllSavedDesigns()
 		const isLandingPage = savedDesigns.length === 0
 		
 		return (
 			<div className="app">
+				<ContentIssuesBanner issues={contentIssues} />
 				{!isLandingPage && (
 					<header className="app__header">
 						<div className="app__logo">
@@ -320,6 +507,7 @@ function App() {
 
 	return (
 		<div className="app">
+		<ContentIssuesBanner issues={contentIssues} />
 		<header className="app__header">
 			<div className="app__logo">
 				<svg className="app__logo-icon" viewBox="0 0 32 32" fill="none" xmlns="http://www.w3.org/2000/svg">
@@ -358,12 +546,56 @@ function App() {
 					onChange={(e) => setSelectedSceneId(e.target.value)}
 					aria-label="Select kitchen view"
 				>
-					{scenes.map((s) => (
+					{scenes.filter((s) => !s.isPrivate).map((s) => (
 						<option key={s.id} value={s.id}>
 							{s.name}
 						</option>
 					))}
+					{privateScenes.length > 0 && (
+						<optgroup label="Your photos">
+							{privateScenes.map((s) => (
+								<option key={s.id} value={s.id}>
+									{s.name}
+								</option>
+							))}
+						</optgroup>
+					)}
 				</select>
+				<button
+					type="button"
+					className="app__back-btn"
+					onClick={() => setPhotoEditor({})}
+					title="Preview materials on a photo of your kitchen"
+				>
+					<svg viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+						<rect x="2" y="4" width="12" height="9" rx="1" stroke="currentColor" strokeWidth="1.5"/>
+						<circle cx="8" cy="8.5" r="2" stroke="currentColor" strokeWidth="1.5"/>
+						<path d="M6 4L7 2.5H9L10 4" stroke="currentColor" strokeWidth="1.5" strokeLinejoin="round"/>
+					</svg>
+					Your photo
+				</button>
+				{scene.isPrivate && (
+					<button
+						type="button"
+						className="app__back-btn"
+						onClick={() => setPhotoEditor({ scene })}
+						title="Repaint the surfaces of this photo"
+					>
+						Edit photo
+					</button>
+				)}
+				<button
+					type="button"
+					className={`app__back-btn ${showCompare ? 'app__back-btn--active' : ''}`}
+					onClick={() => setShowCompare((prev) => !prev)}
+					aria-pressed={showCompare}
+				>
+					<svg viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+						<rect x="2" y="3" width="12" height="10" rx="1" stroke="currentColor" strokeWidth="1.5"/>
+						<path d="M8 3V13" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+					</svg>
+					Compare
+				</button>
 				<button
 					type="button"
 					className="app__save-btn"
@@ -451,161 +683,141 @@ function App() {
 			</div>
 		</header>
 		<main className="app__main">
-			<div className="app__main-content">
-				<aside className="app__sidebar">
-					<nav className="app__sidebar-nav" aria-label="Selection menu">
-						<button
-							type="button"
-							className={`app__nav-item ${activeTab === 'themes' ? 'app__nav-item--active' : ''}`}
-							onClick={() => setActiveTab('themes')}
-							aria-selected={activeTab === 'themes'}
-							aria-controls="themes-panel"
-							id="themes-tab"
-						>
-							<svg className="app__nav-icon" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
-								<path d="M3 4C3 3.44772 3.44772 3 4 3H16C16.5523 3 17 3.44772 17 4V16C17 16.5523 16.5523 17 16 17H4C3.44772 17 3 16.5523 3 16V4Z" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
-								<path d="M3 7H17M7 3V7M13 3V7" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
-							</svg>
-							<span>Themes</span>
-						</button>
-						<button
-							type="button"
-							className={`app__nav-item ${activeTab === 'colors' ? 'app__nav-item--active' : ''}`}
-							onClick={() => setActiveTab('colors')}
-							aria-selected={activeTab === 'colors'}
-							aria-controls="colors-panel"
-							id="colors-tab"
-						>
-							<svg className="app__nav-icon" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
-								<circle cx="6" cy="6" r="2.5" fill="#EF4444" stroke="currentColor" strokeWidth="0.5"/>
-								<circle cx="14" cy="6" r="2.5" fill="#3B82F6" stroke="currentColor" strokeWidth="0.5"/>
-								<circle cx="6" cy="14" r="2.5" fill="#10B981" stroke="currentColor" strokeWidth="0.5"/>
-								<circle cx="14" cy="14" r="2.5" fill="#F59E0B" stroke="currentColor" strokeWidth="0.5"/>
-								<circle cx="10" cy="10" r="2.5" fill="#8B5CF6" stroke="currentColor" strokeWidth="0.5"/>
-							</svg>
-							<span>Colors</span>
-						</button>
-						<button
-							type="button"
-							className={`app__nav-item ${activeTab === 'textures' ? 'app__nav-item--active' : ''}`}
-							onClick={() => setActiveTab('textures')}
-							aria-selected={activeTab === 'textures'}
-							aria-controls="textures-panel"
-							id="textures-tab"
-						>
-							<svg className="app__nav-icon" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
-								<path d="M3 4H17M3 8H17M3 12H17M3 16H17" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
-							</svg>
-							<span>Textures</span>
-						</button>
-					</nav>
-					<div className="app__sidebar-content">
-						<div
-							id="themes-panel"
-							role="tabpanel"
-							aria-labelledby="themes-tab"
-							className={`app__tab-panel ${activeTab === 'themes' ? 'app__tab-panel--active' : ''}`}
-						>
-							<ThemeSelector
-								themes={themes}
-								selectedThemeId={selectedThemeId}
-								onSelect={handleThemeSelect}
-								textures={textureMap}
-							/>
-						</div>
-						<div
-							id="colors-panel"
-							role="tabpanel"
-							aria-labelledby="colors-tab"
-							className={`app__tab-panel ${activeTab === 'colors' ? 'app__tab-panel--active' : ''}`}
-						>
-							<div className="app__sidebar-header">
-								<h2 className="app__sidebar-title">Customize Colors</h2>
-								<p className="app__sidebar-subtitle">
-									Select individual colors for each element
-								</p>
-							</div>
-							<TextureSelector
-								title="Countertop"
-								options={getTexturesByCategory('countertop', 'color')}
-								selectedId={selections.countertop}
-								onSelect={handleSelect('countertop')}
-							/>
-							<TextureSelector
-								title="Backsplash"
-								options={getTexturesByCategory('backsplash', 'color')}
-								selectedId={selections.backsplash}
-								onSelect={handleSelect('backsplash')}
-							/>
-							<TextureSelector
-								title="Cabinet color"
-								options={getTexturesByCategory('cabinet', 'color')}
-								selectedId={selections.cabinet}
-								onSelect={handleSelect('cabinet')}
-							/>
-							<TextureSelector
-								title="Floor"
-								options={getTexturesByCategory('floor', 'color')}
-								selectedId={selections.floor}
-								onSelect={handleSelect('floor')}
-							/>
-							<TextureSelector
-								title="Background"
-								options={getTexturesByCategory('background', 'color')}
-								selectedId={selections.background}
-								onSelect={handleSelect('background')}
-							/>
-						</div>
-						<div
-							id="textures-panel"
-							role="tabpanel"
-							aria-labelledby="textures-tab"
-							className={`app__tab-panel ${activeTab === 'textures' ? 'app__tab-panel--active' : ''}`}
-						>
-							<div className="app__sidebar-header">
-								<h2 className="app__sidebar-title">Texture Images</h2>
-								<p className="app__sidebar-subtitle">
-									Select texture images for each element
-								</p>
-							</div>
-							<TextureSelector
-								title="Countertop"
-								options={getTexturesByCategory('countertop', 'texture')}
-								selectedId={selections.countertop}
-								onSelect={handleSelect('countertop')}
-							/>
-							<TextureSelector
-								title="Backsplash"
-								options={getTexturesByCategory('backsplash', 'texture')}
-								selectedId={selections.backsplash}
-								onSelect={handleSelect('backsplash')}
-							/>
-							<TextureSelector
-								title="Cabinet"
-								options={getTexturesByCategory('cabinet', 'texture')}
-								selectedId={selections.cabinet}
-								onSelect={handleSelect('cabinet')}
-							/>
-							<TextureSelector
-								title="Floor"
-								options={getTexturesByCategory('floor', 'texture')}
-								selectedId={selections.floor}
-								onSelect={handleSelect('floor')}
-							/>
-						</div>
-					</div>
-				</aside>
-				<section className="app__preview" aria-label="Preview">
-					<KitchenPreviewCanvas
+			{showCompare ? (
+				<section className="app__preview" aria-label="Compare designs">
+					<CompareView
 						scene={scene}
-						selections={selectionOptions}
-						onSvgReady={(svg) => {
-							svgRef.current = svg
-						}}
+						categories={categories}
+						textures={textureMap}
+						current={{ selections, surfaceSettings, lighting }}
+						themes={themes}
+						savedDesigns={savedDesigns}
 					/>
 				</section>
-			</div>
+			) : (
+				<div className="app__main-content">
+					<aside className="app__sidebar">
+						<nav className="app__sidebar-nav" aria-label="Selection menu">
+							<button
+								type="button"
+								className={`app__nav-item ${activeTab === 'themes' ? 'app__nav-item--active' : ''}`}
+								onClick={() => setActiveTab('themes')}
+								aria-selected={activeTab === 'themes'}
+								aria-controls="themes-panel"
+								id="themes-tab"
+							>
+								<svg className="app__nav-icon" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
+									<path d="M3 4C3 3.44772 3.44772 3 4 3H16C16.5523 3 17 3.44772 17 4V16C17 16.5523 16.5523 17 16 17H4C3.44772 17 3 16.5523 3 16V4Z" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+									<path d="M3 7H17M7 3V7M13 3V7" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+								</svg>
+								<span>Themes</span>
+							</button>
+							<button
+								type="button"
+								className={`app__nav-item ${activeTab === 'colors' ? 'app__nav-item--active' : ''}`}
+								onClick={() => setActiveTab('colors')}
+								aria-selected={activeTab === 'colors'}
+								aria-controls="colors-panel"
+								id="colors-tab"
+							>
+								<svg className="app__nav-icon" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
+									<circle cx="6" cy="6" r="2.5" fill="#EF4444" stroke="currentColor" strokeWidth="0.5"/>
+									<circle cx="14" cy="6" r="2.5" fill="#3B82F6" stroke="currentColor" strokeWidth="0.5"/>
+									<circle cx="6" cy="14" r="2.5" fill="#10B981" stroke="currentColor" strokeWidth="0.5"/>
+									<circle cx="14" cy="14" r="2.5" fill="#F59E0B" stroke="currentColor" strokeWidth="0.5"/>
+									<circle cx="10" cy="10" r="2.5" fill="#8B5CF6" stroke="currentColor" strokeWidth="0.5"/>
+								</svg>
+								<span>Colors</span>
+							</button>
+							<button
+								type="button"
+								className={`app__nav-item ${activeTab === 'textures' ? 'app__nav-item--active' : ''}`}
+								onClick={() => setActiveTab('textures')}
+								aria-selected={activeTab === 'textures'}
+								aria-controls="textures-panel"
+								id="textures-tab"
+							>
+								<svg className="app__nav-icon" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
+									<path d="M3 4H17M3 8H17M3 12H17M3 16H17" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+								</svg>
+								<span>Textures</span>
+							</button>
+						</nav>
+						<div className="app__sidebar-content">
+							<div
+								id="themes-panel"
+								role="tabpanel"
+								aria-labelledby="themes-tab"
+								className={`app__tab-panel ${activeTab === 'themes' ? 'app__tab-panel--active' : ''}`}
+							>
+								<ThemeSelector
+									themes={themes}
+									selectedThemeId={selectedThemeId}
+									onSelect={handleThemeSelect}
+									categories={categories}
+									textures={textureMap}
+								/>
+							</div>
+							<div
+								id="colors-panel"
+								role="tabpanel"
+								aria-labelledby="colors-tab"
+								className={`app__tab-panel ${activeTab === 'colors' ? 'app__tab-panel--active' : ''}`}
+							>
+								<div className="app__sidebar-header">
+									<h2 className="app__sidebar-title">Customize Colors</h2>
+									<p className="app__sidebar-subtitle">
+										Select individual colors for each element
+									</p>
+								</div>
+								{renderCategorySelectors('color')}
+							</div>
+							<div
+								id="textures-panel"
+								role="tabpanel"
+								aria-labelledby="textures-tab"
+								className={`app__tab-panel ${activeTab === 'textures' ? 'app__tab-panel--active' : ''}`}
+							>
+								<div className="app__sidebar-header">
+									<h2 className="app__sidebar-title">Texture Images</h2>
+									<p className="app__sidebar-subtitle">
+										Select texture images for each element
+									</p>
+								</div>
+								{renderCategorySelectors('texture')}
+							</div>
+						</div>
+					</aside>
+					<section className="app__preview app__preview--stacked" aria-label="Preview">
+						<KitchenPreviewCanvas
+							scene={scene}
+							selections={selectionOptions}
+							surfaceSettings={surfaceSettings}
+							lighting={lighting}
+							onSurfacesResolved={setSceneCategories}
+							surfaceLabels={surfaceLabels}
+							onSurfaceActivate={(surface, anchor) => setPickedSurface({ surface, anchor })}
+							pickingColor={pickingColorFor !== null}
+							onColorPick={handleColorPick}
+							onSvgReady={(svg) => {
+								svgRef.current = svg
+							}}
+						/>
+						<LightingControls value={lighting} onChange={setLighting} />
+					</section>
+				</div>
+			)}
 		</main>
+		{pickedSurface && renderSurfacePicker(pickedSurface.surface, pickedSurface.anchor)}
+		{photoEditor && (
+			<PhotoSceneEditor
+				categories={categories}
+				scene={photoEditor.scene}
+				onSave={handlePhotoSceneSaved}
+				onDelete={handlePhotoSceneDeleted}
+				onClose={() => setPhotoEditor(null)}
+			/>
+		)}
 		{showSaveModal && (
 			<div className="app__modal-overlay" onClick={() => !isSaving && setShowSaveModal(false)}>
 				<div className="app__modal" onClick={(e) => e.stopPropagation()}>
@@ -0,0 +1,90 @@
+/**
+ * Preview panes of the CMS: each content file's preview starts with the problems the
+ * entry being edited has (or causes), checked against the other files as published
+ * (files that cannot be loaded are problems themselves; the bundled copy does not stand in).
+ */
+
+import { fetchPublishedContent, parseContent } from '../lib/content'
+import { SITE_SOURCE } from '../lib/content-sources'
+import { formatContentIssue, validateContent, type ContentIssue } from '../lib/content-validation'
+import type { ContentFile } from '../types'
+
+// Globals of the Decap CMS script; `h` is React's createElement and `createClass` create-react-class
+interface PreviewProps {
+	entry: { getIn(path: string[]): { toJS(): unknown } | undefined }
+	widgetFor(name: string): unknown
+}
+
+interface PreviewComponent {
+	props: PreviewProps
+	state: { issues: ContentIssue[] | null }
+	setState(state: { issues: ContentIssue[] }): void
+	validate(): Promise<void>
+}
+
+declare const CMS: { registerPreviewTemplate(name: string, component: unknown): void }
+declare const createClass: (spec: ThisType<PreviewComponent> & Record<string, unknown>) => unknown
+declare const h: (type: string, props: Record<string, unknown> | null, ...children: unknown[]) => unknown
+
+const FILES: ContentFile[] = ['categories', 'textures', 'scenes', 'themes']
+
+const renderIssues = (issues: ContentIssue[] | null) => {
+	if (!issues) return null
+	const box = {
+		margin: '0 0 1rem',
+		padding: '0.75rem 1rem',
+		borderRadius: '8px',
+		font: '13px/1.5 system-ui, sans-serif',
+	}
+	if (issues.length === 0) {
+		return h('div', { style: { ...box, background: '#f0fdf4', color: '#166534' } }, 'No problems found.')
+	}
+	return h(
+		'div',
+		{ style: { ...box, background: '#fef2f2', color: '#991b1b' } },
+		h('strong', null, `${issues.length} problem${issues.length === 1 ? '' : 's'}`),
+		h(
+			'ul',
+			{ style: { margin: '0.25rem 0 0', paddingLeft: '1.25rem' } },
+			...issues.map((issue, index) =>
+				h(
+					'li',
+					{ key: index, style: { color: issue.severity === 'error' ? '#991b1b' : '#92400e' } },
+					`${issue.severity === 'error' ? 'Error' : 'Warning'}: ${formatContentIssue(issue)}`,
+				),
+			),
+		),
+	)
+}
+
+FILES.forEach((file) => {
+	const Preview = createClass({
+		getInitialState() {
+			return { issues: null }
+		},
+		componentDidMount() {
+			this.validate()
+		},
+		componentDidUpdate(prevProps: PreviewProps) {
+			if (prevProps.entry !== this.props.entry) this.validate()
+		},
+		// Asset paths are not checked here: images uploaded in this session are not on the site yet
+		async validate() {
+			const { entry } = this.props
+			const { content, issues: loadIssues } = await fetchPublishedContent()
+			const edited = parseContent({ [file]: entry.getIn(['data'])?.toJS() })[file]
+			// Only the site's own textures are edited here; the suppliers' stay as loaded
+			const suppliers = file === 'textures' ? content.textures.filter((t) => t.source && t.source !== SITE_SOURCE.id) : []
+			const issues = [
+				// The published copy of the file being edited is replaced by the entry
+				...loadIssues.filter((issue) => issue.entry !== `content/${file}.json`),
+				...(await validateContent({ ...content, [file]: [...edited, ...suppliers] })),
+			]
+			if (this.props.entry === entry) this.setState({ issues })
+		},
+		render() {
+			return h('div', null, renderIssues(this.state.issues), this.props.widgetFor(file))
+		},
+	})
+	CMS.registerPreviewTemplate(file, Preview)
+})
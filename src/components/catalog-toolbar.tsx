@@ -0,0 +1,168 @@
+import { useMemo, useState, KeyboardEvent } from 'react'
+import type { TextureOption } from '../types'
+import {
+	CATALOG_FACETS,
+	CATALOG_GROUPINGS,
+	CATALOG_SORTS,
+	countActiveFilters,
+	getFacetCounts,
+	NO_FILTERS,
+	type CatalogFacet,
+	type CatalogFilters,
+	type CatalogGrouping,
+	type CatalogSort,
+} from '../lib/catalog-filters'
+import './catalog-toolbar.css'
+
+interface CatalogToolbarProps {
+	title: string
+	/** Every option of the selector; filter values are counted over these */
+	options: TextureOption[]
+	filters: CatalogFilters
+	onFiltersChange: (filters: CatalogFilters) => void
+	sort: CatalogSort
+	onSortChange: (sort: CatalogSort) => void
+	/** Groupings that split the options into more than one section */
+	groupings: CatalogGrouping[]
+	grouping: CatalogGrouping
+	onGroupingChange: (grouping: CatalogGrouping) => void
+	/** Options left after filtering */
+	matchCount: number
+}
+
+/** Search, filters, sort order and sections of a long option list */
+export function CatalogToolbar({
+	title,
+	options,
+	filters,
+	onFiltersChange,
+	sort,
+	onSortChange,
+	groupings,
+	grouping,
+	onGroupingChange,
+	matchCount,
+}: CatalogToolbarProps) {
+	const [filtersOpen, setFiltersOpen] = useState(false)
+	const facets = useMemo(() => getFacetCounts(options), [options])
+	const sorts = CATALOG_SORTS.filter(
+		({ value }) =>
+			(value !== 'price' || options.some((opt) => opt.price !== undefined)) &&
+			(value !== 'popularity' || options.some((opt) => opt.popularity !== undefined)),
+	)
+	const activeCount = countActiveFilters(filters)
+	const filtering = activeCount > 0 || filters.query.trim() !== ''
+	const idPrefix = `catalog-${title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`
+
+	const toggleValue = (facet: CatalogFacet, value: string) => {
+		const chosen = filters.facets[facet] ?? []
+		const next = chosen.includes(value) ? chosen.filter((v) => v !== value) : [...chosen, value]
+		onFiltersChange({ ...filters, facets: { ...filters.facets, [facet]: next } })
+	}
+
+	// Escape clears the search first; with nothing to clear it reaches the picker (which closes)
+	const handleSearchKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+		if (e.key === 'Escape' && filters.query) {
+			e.stopPropagation()
+			onFiltersChange({ ...filters, query: '' })
+		}
+	}
+
+	return (
+		<div className="catalog-toolbar">
+			<div className="catalog-toolbar__row">
+				<input
+					type="search"
+					className="catalog-toolbar__search"
+					value={filters.query}
+					onChange={(e) => onFiltersChange({ ...filters, query: e.target.value })}
+					onKeyDown={handleSearchKeyDown}
+					placeholder={`Search ${options.length} options`}
+					aria-label={`Search ${title.toLowerCase()}`}
+				/>
+				{facets.length > 0 && (
+					<button
+						type="button"
+						className={`catalog-toolbar__toggle ${activeCount > 0 ? 'catalog-toolbar__toggle--active' : ''}`}
+						onClick={() => setFiltersOpen((open) => !open)}
+						aria-expanded={filtersOpen}
+						aria-controls={`${idPrefix}-filters`}
+					>
+						Filters{activeCount > 0 ? ` (${activeCount})` : ''}
+					</button>
+				)}
+			</div>
+			{filtersOpen && facets.length > 0 && (
+				<div id={`${idPrefix}-filters`} className="catalog-toolbar__filters">
+					{facets.map(({ id, values }) => {
+						const facet = CATALOG_FACETS.find((f) => f.id === id)!
+						return (
+							<fieldset key={id} className="catalog-toolbar__facet">
+								<legend className="catalog-toolbar__legend">{facet.label}</legend>
+								{values.map(([value, count]) => {
+									const active = filters.facets[id]?.includes(value) ?? false
+									return (
+										<button
+											key={value}
+											type="button"
+											className={`catalog-toolbar__chip ${active ? 'catalog-toolbar__chip--active' : ''}`}
+											onClick={() => toggleValue(id, value)}
+											aria-pressed={active}
+										>
+											{facet.valueLabel(value)}
+											<span className="catalog-toolbar__count">{count}</span>
+										</button>
+									)
+								})}
+							</fieldset>
+						)
+					})}
+				</div>
+			)}
+			<div className="catalog-toolbar__row">
+				{sorts.length > 1 && (
+					<label className="catalog-toolbar__field">
+						Sort
+						<select
+							className="catalog-toolbar__select"
+							value={sort}
+							onChange={(e) => onSortChange(e.target.value as CatalogSort)}
+						>
+							{sorts.map(({ value, label }) => (
+								<option key={value} value={value}>
+									{label}
+								</option>
+							))}
+						</select>
+					</label>
+				)}
+				{groupings.length > 0 && (
+					<label className="catalog-toolbar__field">
+						Group
+						<select
+							className="catalog-toolbar__select"
+							value={grouping}
+							onChange={(e) => onGroupingChange(e.target.value as CatalogGrouping)}
+						>
+							{CATALOG_GROUPINGS.filter(({ value }) => value === 'none' || groupings.includes(value)).map(
+								({ value, label }) => (
+									<option key={value} value={value}>
+										{label}
+									</option>
+								),
+							)}
+						</select>
+					</label>
+				)}
+				<span className="catalog-toolbar__summary" aria-live="polite">
+					{filtering ? `${matchCount} of ${options.length}` : ''}
+				</span>
+				{filtering && (
+					<button type="button" className="catalog-toolbar__clear" onClick={() => onFiltersChange(NO_FILTERS)}>
+						Clear
+					</button>
+				)}
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,205 @@
+import { KeyboardEvent, PointerEvent, useRef, useState } from 'react'
+import type {
+	KitchenSelections,
+	KitchenSurfaceSettings,
+	SavedDesign,
+	Scene,
+	SceneLighting,
+	SurfaceCategory,
+	TextureOption,
+	Theme,
+} from '../types'
+import { getDefaultSelections, resolveSelectionOptions } from '../lib/content'
+import { KitchenPreviewCanvas } from './kitchen-preview-canvas'
+import './compare-view.css'
+
+interface CompareViewProps {
+	scene: Scene
+	categories: SurfaceCategory[]
+	textures: Map<string, TextureOption>
+	/** The design open in the editor */
+	current: { selections: KitchenSelections; surfaceSettings: KitchenSurfaceSettings; lighting?: SceneLighting }
+	themes: Theme[]
+	savedDesigns: SavedDesign[]
+}
+
+type CompareLayout = 'wipe' | 'side-by-side'
+
+/** 'original' | 'current' | 'design:<id>' | 'theme:<id>' */
+type CompareSourceId = string
+
+interface CompareSource {
+	label: string
+	/** null renders the scene's artwork untouched */
+	selections: KitchenSelections | null
+	surfaceSettings: KitchenSurfaceSettings
+	lighting?: SceneLighting
+}
+
+/** Two designs on the same scene, wiped across or side by side */
+export function CompareView({ scene, categories, textures, current, themes, savedDesigns }: CompareViewProps) {
+	const [sourceA, setSourceA] = useState<CompareSourceId>('original')
+	const [sourceB, setSourceB] = useState<CompareSourceId>('current')
+	const [layout, setLayout] = useState<CompareLayout>('wipe')
+	// Wipe position, in % of the width from the left; option A shows left of it
+	const [position, setPosition] = useState(50)
+	const stageRef = useRef<HTMLDivElement>(null)
+
+	const resolveSource = (id: CompareSourceId): CompareSource => {
+		if (id === 'current') {
+			return { label: 'Current design', ...current }
+		}
+		if (id.startsWith('design:')) {
+			const design = savedDesigns.find((d) => d.id === id.slice('design:'.length))
+			if (design) {
+				return {
+					label: design.name,
+					selections: { ...getDefaultSelections(), ...design.selections },
+					surfaceSettings: design.surfaceSettings ?? {},
+					lighting: design.lighting,
+				}
+			}
+		}
+		if (id.startsWith('theme:')) {
+			const theme = themes.find((t) => t.id === id.slice('theme:'.length))
+			if (theme) {
+				return {
+					label: theme.name,
+					selections: { ...getDefaultSelections(), ...theme.selections },
+					surfaceSettings: {},
+				}
+			}
+		}
+		return { label: 'Original artwork', selections: null, surfaceSettings: {} }
+	}
+
+	const a = resolveSource(sourceA)
+	const b = resolveSource(sourceB)
+
+	const moveWipe = (clientX: number) => {
+		const rect = stageRef.current?.getBoundingClientRect()
+		if (!rect || rect.width === 0) return
+		setPosition(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)))
+	}
+
+	const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+		if (layout !== 'wipe') return
+		e.currentTarget.setPointerCapture(e.pointerId)
+		moveWipe(e.clientX)
+	}
+
+	const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+		if (e.currentTarget.hasPointerCapture(e.pointerId)) moveWipe(e.clientX)
+	}
+
+	const handleHandleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+		const steps: Record<string, number> = { ArrowLeft: -5, ArrowRight: 5, Home: -100, End: 100 }
+		if (steps[e.key] === undefined) return
+		e.preventDefault()
+		setPosition((prev) => Math.min(100, Math.max(0, prev + steps[e.key])))
+	}
+
+	const renderSourceSelect = (label: string, value: CompareSourceId, onChange: (id: CompareSourceId) => void) => (
+		<label className="compare-view__source">
+			<span className="compare-view__source-label">{label}</span>
+			<select className="compare-view__select" value={value} onChange={(e) => onChange(e.target.value)}>
+				<option value="original">Original artwork</option>
+				<option value="current">Current design</option>
+				{savedDesigns.length > 0 && (
+					<optgroup label="Saved designs">
+						{savedDesigns.map((design) => (
+							<option key={design.id} value={`design:${design.id}`}>
+								{design.name}
+							</option>
+						))}
+					</optgroup>
+				)}
+				{themes.length > 0 && (
+					<optgroup label="Themes">
+						{themes.map((theme) => (
+							<option key={theme.id} value={`theme:${theme.id}`}>
+								{theme.name}
+							</option>
+						))}
+					</optgroup>
+				)}
+			</select>
+		</label>
+	)
+
+	// The original artwork needs a freshly loaded scene: switching to it does not undo painted surfaces
+	const renderCanvas = (source: CompareSource) => (
+		<KitchenPreviewCanvas
+			key={source.selections ? 'styled' : 'original'}
+			scene={scene}
+			selections={source.selections ? resolveSelectionOptions(categories, source.selections, textures) : {}}
+			surfaceSettings={source.surfaceSettings}
+			lighting={source.lighting}
+			interactive={false}
+		/>
+	)
+
+	return (
+		<div className="compare-view">
+			<div className="compare-view__controls">
+				{renderSourceSelect('A', sourceA, setSourceA)}
+				{renderSourceSelect('B', sourceB, setSourceB)}
+				<div className="compare-view__layout" role="group" aria-label="Layout">
+					<button
+						type="button"
+						className={`compare-view__layout-btn ${layout === 'wipe' ? 'compare-view__layout-btn--active' : ''}`}
+						aria-pressed={layout === 'wipe'}
+						onClick={() => setLayout('wipe')}
+					>
+						Wipe
+					</button>
+					<button
+						type="button"
+						className={`compare-view__layout-btn ${layout === 'side-by-side' ? 'compare-view__layout-btn--active' : ''}`}
+						aria-pressed={layout === 'side-by-side'}
+						onClick={() => setLayout('side-by-side')}
+					>
+						Side by side
+					</button>
+				</div>
+			</div>
+			<div
+				ref={stageRef}
+				className={`compare-view__stage compare-view__stage--${layout}`}
+				onPointerDown={handlePointerDown}
+				onPointerMove={handlePointerMove}
+			>
+				<div
+					className="compare-view__pane compare-view__pane--a"
+					style={layout === 'wipe' ? { clipPath: `inset(0 ${100 - position}% 0 0)` } : undefined}
+				>
+					{renderCanvas(a)}
+					<span className="compare-view__badge">A · {a.label}</span>
+				</div>
+				<div className="compare-view__pane compare-view__pane--b">
+					{renderCanvas(b)}
+					<span className="compare-view__badge compare-view__badge--b">B · {b.label}</span>
+				</div>
+				{layout === 'wipe' && (
+					<div
+						className="compare-view__handle"
+						style={{ left: `${position}%` }}
+						role="slider"
+						tabIndex={0}
+						aria-label="Wipe position"
+						aria-valuemin={0}
+						aria-valuemax={100}
+						aria-valuenow={Math.round(position)}
+						onKeyDown={handleHandleKeyDown}
+					>
+						<span className="compare-view__handle-knob" aria-hidden>
+							<svg viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+								<path d="M6 4L2 8L6 12M10 4L14 8L10 12" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
+							</svg>
+						</span>
+					</div>
+				)}
+			</div>
+		</div>
+	)
+}
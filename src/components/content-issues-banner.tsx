@@ -0,0 +1,51 @@
+import { useState } from 'react'
+import type { ContentIssue } from '../lib/content-validation'
+import './content-issues-banner.css'
+
+interface ContentIssuesBannerProps {
+	issues: ContentIssue[]
+}
+
+/** Tells content editors what is wrong with the published content; shown to them only */
+export function ContentIssuesBanner({ issues }: ContentIssuesBannerProps) {
+	const [dismissed, setDismissed] = useState(false)
+	if (issues.length === 0 || dismissed) return null
+
+	const errors = issues.filter((issue) => issue.severity === 'error').length
+	const warnings = issues.length - errors
+	const summary = [
+		errors > 0 && `${errors} error${errors === 1 ? '' : 's'}`,
+		warnings > 0 && `${warnings} warning${warnings === 1 ? '' : 's'}`,
+	]
+		.filter(Boolean)
+		.join(' and ')
+
+	return (
+		<div className={`content-issues ${errors > 0 ? 'content-issues--error' : ''}`} role="status">
+			<details className="content-issues__details">
+				<summary className="content-issues__summary">
+					Content has {summary}. Fix them in the CMS; visitors see missing swatches or surfaces meanwhile.
+				</summary>
+				<ul className="content-issues__list">
+					{issues.map((issue, index) => (
+						<li key={index} className={`content-issues__item content-issues__item--${issue.severity}`}>
+							<span className="content-issues__entry">
+								{issue.file && `${issue.file}.json › `}
+								{issue.entry}
+							</span>
+							: {issue.message}
+						</li>
+					))}
+				</ul>
+			</details>
+			<button
+				type="button"
+				className="content-issues__dismiss"
+				onClick={() => setDismissed(true)}
+				aria-label="Dismiss content issues"
+			>
+				×
+			</button>
+		</div>
+	)
+}
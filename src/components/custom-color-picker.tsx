@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react'
+import type { TextureCategory } from '../types'
+import { hexToRgb, hslToRgb, isCustomColor, parseHexColor, rgbToHex, rgbToHsl, type Hsl, type Rgb } from '../lib/colors'
+import './custom-color-picker.css'
+
+interface CustomColorPickerProps {
+	title: string
+	category: TextureCategory
+	/** The surface's current selection; shown when it is a custom colour */
+	value: string | undefined
+	/** Colours picked lately, most recent first */
+	recentColors: string[]
+	onChange: (color: string) => void
+	/** Whether the preview's eyedropper is picking for this picker */
+	picking: boolean
+	onPickToggle: () => void
+}
+
+const RGB_CHANNELS: { key: keyof Rgb; label: string }[] = [
+	{ key: 'r', label: 'R' },
+	{ key: 'g', label: 'G' },
+	{ key: 'b', label: 'B' },
+]
+
+const HSL_CHANNELS: { key: keyof Hsl; label: string; max: number }[] = [
+	{ key: 'h', label: 'H', max: 360 },
+	{ key: 's', label: 'S', max: 100 },
+	{ key: 'l', label: 'L', max: 100 },
+]
+
+/** Any colour for a surface: by hex, RGB or HSL value, from the preview, or a recent one */
+export function CustomColorPicker({
+	title,
+	category,
+	value,
+	recentColors,
+	onChange,
+	picking,
+	onPickToggle,
+}: CustomColorPickerProps) {
+	const custom = isCustomColor(value) ? value : undefined
+	const [color, setColor] = useState(custom ?? '#808080')
+	const [hexText, setHexText] = useState(color)
+	const id = `custom-color-${category}`
+
+	// Follow the selection when it changes elsewhere (a theme, a loaded design, the eyedropper)
+	useEffect(() => {
+		if (custom) {
+			setColor(custom)
+			setHexText(custom)
+		}
+	}, [custom])
+
+	const apply = (next: string) => {
+		setColor(next)
+		setHexText(next)
+		onChange(next)
+	}
+
+	const rgb = hexToRgb(color)
+	const hsl = rgbToHsl(rgb)
+
+	return (
+		<details className="custom-color-picker" open={!!custom || picking || undefined}>
+			<summary className="custom-color-picker__summary">
+				<span
+					className={`custom-color-picker__preview ${custom ? 'custom-color-picker__preview--active' : ''}`}
+					style={{ backgroundColor: custom ?? color }}
+					aria-hidden
+				/>
+				{title}
+			</summary>
+			<div className="custom-color-picker__body">
+				<div className="custom-color-picker__row">
+					<input
+						type="color"
+						className="custom-color-picker__native"
+						value={color}
+						onChange={(e) => apply(e.target.value)}
+						aria-label={`${title} swatch`}
+					/>
+					<input
+						id={`${id}-hex`}
+						type="text"
+						className="custom-color-picker__hex"
+						value={hexText}
+						onChange={(e) => {
+							setHexText(e.target.value)
+							const parsed = parseHexColor(e.target.value)
+							if (parsed) {
+								setColor(parsed)
+								onChange(parsed)
+							}
+						}}
+						onBlur={() => setHexText(color)}
+						spellCheck={false}
+						aria-label="Hex value"
+					/>
+					<button
+						type="button"
+						className={`custom-color-picker__eyedropper ${picking ? 'custom-color-picker__eyedropper--active' : ''}`}
+						onClick={onPickToggle}
+						aria-pressed={picking}
+						aria-label="Eyedropper"
+						title={picking ? 'Click the preview to pick a colour (Escape to cancel)' : 'Pick a colour from the preview'}
+					>
+						<svg viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden>
+							<path
+								d="M10.5 2.5L13.5 5.5M12 4L5 11L3 13M9 3L13 7M5 11L3.5 12.5"
+								stroke="currentColor"
+								strokeWidth="1.5"
+								strokeLinecap="round"
+								strokeLinejoin="round"
+							/>
+						</svg>
+					</button>
+				</div>
+				<div className="custom-color-picker__row">
+					{RGB_CHANNELS.map(({ key, label }) => (
+						<label key={key} className="custom-color-picker__channel">
+							<span>{label}</span>
+							<input
+								type="number"
+								min={0}
+								max={255}
+								className="custom-color-picker__input"
+								value={rgb[key]}
+								onChange={(e) => apply(rgbToHex({ ...rgb, [key]: Number(e.target.value) || 0 }))}
+							/>
+						</label>
+					))}
+				</div>
+				<div className="custom-color-picker__row">
+					{HSL_CHANNELS.map(({ key, label, max }) => (
+						<label key={key} className="custom-color-picker__channel">
+							<span>{label}</span>
+							<input
+								type="number"
+								min={0}
+								max={max}
+								className="custom-color-picker__input"
+								value={hsl[key]}
+								onChange={(e) => apply(rgbToHex(hslToRgb({ ...hsl, [key]: Number(e.target.value) || 0 })))}
+							/>
+						</label>
+					))}
+				</div>
+				{recentColors.length > 0 && (
+					<div className="custom-color-picker__recent" role="group" aria-label="Recent colours">
+						{recentColors.map((recent) => (
+							<button
+								key={recent}
+								type="button"
+								className={`custom-color-picker__swatch ${recent === custom ? 'custom-color-picker__swatch--selected' : ''}`}
+								style={{ backgroundColor: recent }}
+								onClick={() => apply(recent)}
+								aria-label={recent.toUpperCase()}
+								title={recent.toUpperCase()}
+							/>
+						))}
+					</div>
+				)}
+			</div>
+		</details>
+	)
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { getAllSavedDesigns, deleteSavedDesign, deleteAllSavedDesigns } from '../lib/storage'
+import { getAllSavedDesigns, deleteSavedDesign, deleteAllSavedDesigns, getPrivateScenes } from '../lib/storage'
 import { getAssetUrl, getThemeById, getScenes } from '../lib/content'
 import type { SavedDesign } from '../types'
 import './dashboard.css'
@@ -205,7 +205,7 @@ export function Dashboard({ onLoadDesign, onNewDesign }: DashboardProps) {
 			<div className="dashboard__grid">
 				{designs.map((design, index) => {
 					const theme = design.themeId ? getThemeById(design.themeId) : null
-					const scene = getScenes().find(s => s.id === design.sceneId)
+					const scene = [...getScenes(), ...getPrivateScenes()].find(s => s.id === design.sceneId)
 					const updatedDate = new Date(design.updatedAt)
 					const isRecent = Date.now() - updatedDate.getTime() < 7 * 24 * 60 * 60 * 1000 // 7 days
 					
@@ -0,0 +1,39 @@
+import type { TextureCategory, TextureFinish, TextureOption } from '../types'
+import { FINISHES, getFinishLabel } from '../lib/finishes'
+import './finish-select.css'
+
+interface FinishSelectProps {
+	title: string
+	category: TextureCategory
+	/** Currently selected option; its own finish is the default */
+	option: TextureOption | undefined
+	value: TextureFinish | undefined
+	onChange: (finish: TextureFinish | undefined) => void
+}
+
+/** Finish of a surface: the material's own, or matte, satin or gloss instead */
+export function FinishSelect({ title, category, option, value, onChange }: FinishSelectProps) {
+	if (!option) return null
+	const id = `finish-${category}`
+
+	return (
+		<div className="finish-select">
+			<label className="finish-select__label" htmlFor={id}>
+				{title}
+			</label>
+			<select
+				id={id}
+				className="finish-select__select"
+				value={value ?? ''}
+				onChange={(e) => onChange((e.target.value || undefined) as TextureFinish | undefined)}
+			>
+				<option value="">Material default ({getFinishLabel(option.finish ?? 'matte')})</option>
+				{FINISHES.map((finish) => (
+					<option key={finish.value} value={finish.value}>
+						{finish.label}
+					</option>
+				))}
+			</select>
+		</div>
+	)
+}
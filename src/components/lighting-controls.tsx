@@ -0,0 +1,58 @@
+import type { SceneLighting } from '../types'
+import { DEFAULT_LIGHTING, getLightingPreset, LIGHTING_PRESETS, MAX_KELVIN, MIN_KELVIN } from '../lib/lighting'
+import './lighting-controls.css'
+
+interface LightingControlsProps {
+	value: SceneLighting | undefined
+	onChange: (lighting: SceneLighting) => void
+}
+
+/** Light the preview is shown under: a preset, or any colour temperature and brightness */
+export function LightingControls({ value, onChange }: LightingControlsProps) {
+	const lighting = value ?? DEFAULT_LIGHTING
+	const preset = getLightingPreset(lighting)
+
+	return (
+		<div className="lighting-controls" role="group" aria-label="Lighting">
+			<div className="lighting-controls__presets">
+				{LIGHTING_PRESETS.map((p) => (
+					<button
+						key={p.id}
+						type="button"
+						className={`lighting-controls__preset ${preset?.id === p.id ? 'lighting-controls__preset--active' : ''}`}
+						onClick={() => onChange(p.lighting)}
+						aria-pressed={preset?.id === p.id}
+					>
+						{p.label}
+					</button>
+				))}
+			</div>
+			<label className="lighting-controls__slider">
+				<span className="lighting-controls__label">Temperature</span>
+				<input
+					type="range"
+					min={MIN_KELVIN}
+					max={MAX_KELVIN}
+					step={100}
+					className="lighting-controls__range lighting-controls__range--kelvin"
+					value={lighting.kelvin}
+					onChange={(e) => onChange({ ...lighting, kelvin: Number(e.target.value) })}
+				/>
+				<span className="lighting-controls__value">{lighting.kelvin} K</span>
+			</label>
+			<label className="lighting-controls__slider">
+				<span className="lighting-controls__label">Brightness</span>
+				<input
+					type="range"
+					min={30}
+					max={120}
+					step={5}
+					className="lighting-controls__range"
+					value={lighting.brightness}
+					onChange={(e) => onChange({ ...lighting, brightness: Number(e.target.value) })}
+				/>
+				<span className="lighting-controls__value">{lighting.brightness}%</span>
+			</label>
+		</div>
+	)
+}
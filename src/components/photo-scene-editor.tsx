@@ -0,0 +1,445 @@
+import { ChangeEvent, MouseEvent, PointerEvent, useCallback, useEffect, useRef, useState } from 'react'
+import type { Scene, SurfaceCategory, TextureCategory } from '../types'
+import { getSceneMasks } from '../lib/content'
+import { createPhotoScene, isMaskEmpty, readScenePhoto, type ScenePhoto } from '../lib/photo-scenes'
+import { loadImage } from '../lib/scene-renderer'
+import { deletePrivateScene, savePrivateScene } from '../lib/storage'
+import './photo-scene-editor.css'
+
+interface PhotoSceneEditorProps {
+	/** Surfaces masks can be painted for */
+	categories: SurfaceCategory[]
+	/** A private scene to edit; without one a photo is uploaded for a new scene */
+	scene?: Scene
+	onSave: (scene: Scene) => void
+	onDelete: (sceneId: string) => void
+	onClose: () => void
+}
+
+type MaskTool = 'polygon' | 'brush' | 'eraser'
+
+interface Point {
+	x: number
+	y: number
+}
+
+const MASK_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#9333ea', '#0891b2', '#db2777', '#65a30d']
+const MAX_UNDO = 10
+/** Clicking this close (in screen pixels) to a polygon's first point closes it */
+const CLOSE_DISTANCE = 10
+
+/**
+ * Upload a photo of a kitchen and paint a mask per surface on it, with polygons and a
+ * brush; saved as a private scene in this browser.
+ */
+export function PhotoSceneEditor({ categories, scene, onSave, onDelete, onClose }: PhotoSceneEditorProps) {
+	const [photo, setPhoto] = useState<ScenePhoto | null>(null)
+	const [name, setName] = useState(scene?.name ?? 'My kitchen')
+	const [active, setActive] = useState<TextureCategory>(categories[0]?.id ?? '')
+	const [tool, setTool] = useState<MaskTool>('polygon')
+	const [brushSize, setBrushSize] = useState(40)
+	// Corners of the polygon being drawn, in photo pixels
+	const [points, setPoints] = useState<Point[]>([])
+	// Categories with something painted on their mask
+	const [painted, setPainted] = useState<Record<TextureCategory, boolean>>({})
+	const [error, setError] = useState<string | null>(null)
+	const [isLoading, setIsLoading] = useState(false)
+
+	// One white-on-transparent canvas per category, at the photo's size
+	const masksRef = useRef(new Map<TextureCategory, HTMLCanvasElement>())
+	const overlayRef = useRef<HTMLCanvasElement>(null)
+	const scratchRef = useRef<HTMLCanvasElement | null>(null)
+	const undoRef = useRef<{ category: TextureCategory; image: ImageData }[]>([])
+	// Last point of the brush stroke in progress
+	const strokeRef = useRef<Point | null>(null)
+	const frameRef = useRef<number>()
+
+	const getMask = (category: TextureCategory, size: ScenePhoto | null = photo) => {
+		let mask = masksRef.current.get(category)
+		if (!mask && size) {
+			mask = document.createElement('canvas')
+			mask.width = size.width
+			mask.height = size.height
+			masksRef.current.set(category, mask)
+		}
+		return mask
+	}
+
+	// An existing scene's photo and masks are painted on from where they were left
+	useEffect(() => {
+		if (!scene) return
+		setIsLoading(true)
+		loadImage(scene.baseImageUrl)
+			.then(async (img) => {
+				const loaded = { url: scene.baseImageUrl, width: img.naturalWidth, height: img.naturalHeight }
+				const masks = getSceneMasks(scene)
+				await Promise.all(
+					Object.entries(masks).map(async ([category, url]) => {
+						const maskImg = await loadImage(url)
+						getMask(category, loaded)?.getContext('2d')?.drawImage(maskImg, 0, 0, loaded.width, loaded.height)
+					}),
+				)
+				setPainted(Object.fromEntries(Object.keys(masks).map((category) => [category, true])))
+				setPhoto(loaded)
+			})
+			.catch(() => setError('The photo of this scene could not be loaded.'))
+			.finally(() => setIsLoading(false))
+	}, [scene?.id])
+
+	const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0]
+		if (!file) return
+		setIsLoading(true)
+		setError(null)
+		try {
+			setPhoto(await readScenePhoto(file))
+		} catch {
+			setError('That file could not be read as a photo.')
+		} finally {
+			setIsLoading(false)
+		}
+	}
+
+	const redraw = useCallback(() => {
+		const overlay = overlayRef.current
+		const ctx = overlay?.getContext('2d')
+		if (!overlay || !ctx || !photo) return
+		const scratch = (scratchRef.current ??= document.createElement('canvas'))
+		if (scratch.width !== photo.width || scratch.height !== photo.height) {
+			scratch.width = photo.width
+			scratch.height = photo.height
+		}
+		const scratchCtx = scratch.getContext('2d')
+		if (!scratchCtx) return
+
+		ctx.clearRect(0, 0, overlay.width, overlay.height)
+		categories.forEach((category, index) => {
+			const mask = masksRef.current.get(category.id)
+			if (!mask) return
+			// The mask's shape in the category's colour
+			scratchCtx.globalCompositeOperation = 'source-over'
+			scratchCtx.clearRect(0, 0, scratch.width, scratch.height)
+			scratchCtx.drawImage(mask, 0, 0)
+			scratchCtx.globalCompositeOperation = 'source-in'
+			scratchCtx.fillStyle = MASK_COLORS[index % MASK_COLORS.length]
+			scratchCtx.fillRect(0, 0, scratch.width, scratch.height)
+			ctx.globalAlpha = category.id === active ? 0.55 : 0.3
+			ctx.drawImage(scratch, 0, 0)
+		})
+		ctx.globalAlpha = 1
+
+		if (points.length > 0) {
+			const pixel = photo.width / overlay.getBoundingClientRect().width
+			ctx.strokeStyle = '#ffffff'
+			ctx.fillStyle = '#0f172a'
+			ctx.lineWidth = 2 * pixel
+			ctx.beginPath()
+			points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)))
+			ctx.stroke()
+			points.forEach((p) => {
+				ctx.beginPath()
+				ctx.arc(p.x, p.y, 4 * pixel, 0, Math.PI * 2)
+				ctx.fill()
+				ctx.stroke()
+			})
+		}
+	}, [photo, categories, active, points])
+
+	useEffect(redraw, [redraw])
+
+	// Brush strokes redraw once per frame
+	const requestRedraw = () => {
+		if (frameRef.current) return
+		frameRef.current = requestAnimationFrame(() => {
+			frameRef.current = undefined
+			redraw()
+		})
+	}
+	useEffect(() => () => cancelAnimationFrame(frameRef.current ?? 0), [])
+
+	const pushUndo = (category: TextureCategory) => {
+		const mask = getMask(category)
+		const ctx = mask?.getContext('2d')
+		if (!mask || !ctx) return
+		undoRef.current = [...undoRef.current, { category, image: ctx.getImageData(0, 0, mask.width, mask.height) }].slice(
+			-MAX_UNDO,
+		)
+	}
+
+	const updatePainted = (category: TextureCategory) => {
+		const mask = masksRef.current.get(category)
+		setPainted((prev) => ({ ...prev, [category]: !!mask && !isMaskEmpty(mask) }))
+	}
+
+	const undo = () => {
+		const step = undoRef.current.pop()
+		if (!step) return
+		getMask(step.category)?.getContext('2d')?.putImageData(step.image, 0, 0)
+		updatePainted(step.category)
+		redraw()
+	}
+
+	const clearMask = () => {
+		const mask = getMask(active)
+		if (!mask) return
+		pushUndo(active)
+		mask.getContext('2d')?.clearRect(0, 0, mask.width, mask.height)
+		setPainted((prev) => ({ ...prev, [active]: false }))
+		redraw()
+	}
+
+	const closePolygon = () => {
+		const ctx = getMask(active)?.getContext('2d')
+		if (!ctx || points.length < 3) return
+		pushUndo(active)
+		ctx.globalCompositeOperation = 'source-over'
+		ctx.fillStyle = '#ffffff'
+		ctx.beginPath()
+		points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)))
+		ctx.closePath()
+		ctx.fill()
+		setPainted((prev) => ({ ...prev, [active]: true }))
+		setPoints([])
+	}
+
+	const toPhotoPoint = (e: { clientX: number; clientY: number }): Point => {
+		const rect = overlayRef.current!.getBoundingClientRect()
+		return {
+			x: ((e.clientX - rect.left) / rect.width) * photo!.width,
+			y: ((e.clientY - rect.top) / rect.height) * photo!.height,
+		}
+	}
+
+	// A round dab at `to`, joined to the previous one (canvas drops zero-length lines, caps included)
+	const paint = (from: Point, to: Point) => {
+		const ctx = getMask(active)?.getContext('2d')
+		if (!ctx) return
+		ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over'
+		ctx.strokeStyle = ctx.fillStyle = '#ffffff'
+		ctx.lineWidth = brushSize
+		ctx.lineCap = 'round'
+		ctx.beginPath()
+		ctx.moveTo(from.x, from.y)
+		ctx.lineTo(to.x, to.y)
+		ctx.stroke()
+		ctx.beginPath()
+		ctx.arc(to.x, to.y, brushSize / 2, 0, Math.PI * 2)
+		ctx.fill()
+		requestRedraw()
+	}
+
+	const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+		if (tool === 'polygon' || e.button !== 0) return
+		e.currentTarget.setPointerCapture(e.pointerId)
+		pushUndo(active)
+		const point = toPhotoPoint(e)
+		strokeRef.current = point
+		paint(point, point)
+	}
+
+	const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+		if (!strokeRef.current) return
+		const point = toPhotoPoint(e)
+		paint(strokeRef.current, point)
+		strokeRef.current = point
+	}
+
+	const handlePointerUp = () => {
+		if (!strokeRef.current) return
+		strokeRef.current = null
+		updatePainted(active)
+	}
+
+	const handleClick = (e: MouseEvent<HTMLCanvasElement>) => {
+		if (tool !== 'polygon' || !photo) return
+		const point = toPhotoPoint(e)
+		const first = points[0]
+		const rect = e.currentTarget.getBoundingClientRect()
+		const screenDistance = first ? (Math.hypot(point.x - first.x, point.y - first.y) * rect.width) / photo.width : Infinity
+		if (points.length >= 3 && screenDistance < CLOSE_DISTANCE) closePolygon()
+		else setPoints([...points, point])
+	}
+
+	// Enter closes the polygon, Backspace takes its last corner off, Escape drops it; Ctrl+Z undoes
+	useEffect(() => {
+		const handleKeyDown = (e: KeyboardEvent) => {
+			if (e.target instanceof HTMLInputElement) return
+			if ((e.ctrlKey || e.metaKey) && e.key === 'z') {
+				e.preventDefault()
+				undo()
+			} else if (e.key === 'Enter') closePolygon()
+			else if (e.key === 'Backspace') setPoints((prev) => prev.slice(0, -1))
+			else if (e.key === 'Escape') {
+				if (points.length > 0) setPoints([])
+				else onClose()
+			}
+		}
+		window.addEventListener('keydown', handleKeyDown)
+		return () => window.removeEventListener('keydown', handleKeyDown)
+	})
+
+	const handleSave = () => {
+		if (!photo || !name.trim()) return
+		const masks: Partial<Record<TextureCategory, string>> = {}
+		categories.forEach((category) => {
+			const mask = masksRef.current.get(category.id)
+			if (mask && !isMaskEmpty(mask)) masks[category.id] = mask.toDataURL('image/png')
+		})
+		if (Object.keys(masks).length === 0) {
+			setError('Paint at least one surface before saving.')
+			return
+		}
+		const saved = createPhotoScene(name.trim(), photo.url, masks, scene?.id)
+		try {
+			savePrivateScene(saved)
+		} catch (e) {
+			console.error('Failed to save photo scene:', e)
+			setError('There is not enough room in this browser to save the photo. Delete other photos or use a smaller one.')
+			return
+		}
+		onSave(saved)
+	}
+
+	const handleDelete = () => {
+		if (!scene || !window.confirm(`Delete "${scene.name}"? Designs on it will show another scene.`)) return
+		deletePrivateScene(scene.id)
+		onDelete(scene.id)
+	}
+
+	return (
+		<div className="photo-scene-editor" role="dialog" aria-modal="true" aria-label="Your kitchen photo">
+			<div className="photo-scene-editor__dialog">
+				<header className="photo-scene-editor__header">
+					<h2 className="photo-scene-editor__title">{scene ? 'Edit your photo' : 'Use your own kitchen photo'}</h2>
+					<input
+						type="text"
+						className="photo-scene-editor__name"
+						value={name}
+						onChange={(e) => setName(e.target.value)}
+						placeholder="Name"
+						aria-label="Scene name"
+						maxLength={60}
+					/>
+					<button type="button" className="photo-scene-editor__close" onClick={onClose} aria-label="Close">
+						×
+					</button>
+				</header>
+
+				{!photo ? (
+					<label className="photo-scene-editor__upload">
+						<input type="file" accept="image/jpeg,image/png,image/webp" onChange={handleFile} disabled={isLoading} />
+						<span className="photo-scene-editor__upload-title">
+							{isLoading ? 'Loading…' : 'Choose a photo of your kitchen'}
+						</span>
+						<span className="photo-scene-editor__upload-text">
+							A straight-on photo in even light works best. It stays in this browser and is not uploaded anywhere.
+						</span>
+					</label>
+				) : (
+					<div className="photo-scene-editor__body">
+						<aside className="photo-scene-editor__tools">
+							<div className="photo-scene-editor__group" role="radiogroup" aria-label="Surface">
+								{categories.map((category, index) => (
+									<label key={category.id} className="photo-scene-editor__surface">
+										<input
+											type="radio"
+											name="photo-surface"
+											checked={active === category.id}
+											onChange={() => {
+												setActive(category.id)
+												setPoints([])
+											}}
+										/>
+										<span
+											className="photo-scene-editor__dot"
+											style={{ background: MASK_COLORS[index % MASK_COLORS.length] }}
+											aria-hidden
+										/>
+										<span className="photo-scene-editor__surface-label">{category.label}</span>
+										{painted[category.id] && <span className="photo-scene-editor__check" aria-label="painted">✓</span>}
+									</label>
+								))}
+							</div>
+							<div className="photo-scene-editor__group" role="group" aria-label="Tool">
+								{(['polygon', 'brush', 'eraser'] as MaskTool[]).map((t) => (
+									<button
+										key={t}
+										type="button"
+										className={`photo-scene-editor__tool ${tool === t ? 'photo-scene-editor__tool--active' : ''}`}
+										onClick={() => {
+											setTool(t)
+											setPoints([])
+										}}
+										aria-pressed={tool === t}
+									>
+										{t === 'polygon' ? 'Polygon' : t === 'brush' ? 'Brush' : 'Eraser'}
+									</button>
+								))}
+							</div>
+							{tool !== 'polygon' && (
+								<label className="photo-scene-editor__size">
+									Size
+									<input
+										type="range"
+										min={4}
+										max={200}
+										value={brushSize}
+										onChange={(e) => setBrushSize(Number(e.target.value))}
+									/>
+								</label>
+							)}
+							<div className="photo-scene-editor__group">
+								<button type="button" className="photo-scene-editor__tool" onClick={undo}>
+									Undo
+								</button>
+								<button type="button" className="photo-scene-editor__tool" onClick={clearMask}>
+									Clear surface
+								</button>
+							</div>
+							<p className="photo-scene-editor__hint">
+								{tool === 'polygon'
+									? 'Click around the surface; click the first point or press Enter to fill it.'
+									: 'Drag over the surface to paint it.'}
+							</p>
+						</aside>
+						<div className="photo-scene-editor__stage">
+							<img className="photo-scene-editor__photo" src={photo.url} alt="" draggable={false} />
+							<canvas
+								ref={overlayRef}
+								className={`photo-scene-editor__overlay photo-scene-editor__overlay--${tool}`}
+								width={photo.width}
+								height={photo.height}
+								onClick={handleClick}
+								onDoubleClick={closePolygon}
+								onPointerDown={handlePointerDown}
+								onPointerMove={handlePointerMove}
+								onPointerUp={handlePointerUp}
+								onPointerCancel={handlePointerUp}
+							/>
+						</div>
+					</div>
+				)}
+
+				{error && <p className="photo-scene-editor__error">{error}</p>}
+				<footer className="photo-scene-editor__footer">
+					{scene && (
+						<button type="button" className="photo-scene-editor__delete" onClick={handleDelete}>
+							Delete photo
+						</button>
+					)}
+					<button type="button" className="photo-scene-editor__button" onClick={onClose}>
+						Cancel
+					</button>
+					<button
+						type="button"
+						className="photo-scene-editor__button photo-scene-editor__button--primary"
+						onClick={handleSave}
+						disabled={!photo || !name.trim()}
+					>
+						Save and preview
+					</button>
+				</footer>
+			</div>
+		</div>
+	)
+}
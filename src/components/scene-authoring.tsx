@@ -0,0 +1,409 @@
+import { ChangeEvent, MouseEvent, PointerEvent, useEffect, useMemo, useRef, useState } from 'react'
+import type { Scene, SceneSurfaces, SurfaceCategory, TextureCategory } from '../types'
+import { getSurfaceIds, getSurfaceLabel, isPhotoScene, loadCategories, loadScenes, toSceneEntry } from '../lib/content'
+import { fetchSceneSvg, loadScene } from '../lib/scene-renderer'
+import {
+	buildSceneSurfaces,
+	getFillUsage,
+	getSceneShapes,
+	readSceneAssignments,
+	type SurfaceAssignments,
+} from '../lib/scene-authoring'
+import { SHAPE_SELECTOR } from '../lib/surfaces'
+import './scene-authoring.css'
+
+/** Artwork being tagged: its markup, and the scene it belongs to when it is an existing one */
+interface AuthoringSource {
+	fileName: string
+	svgText: string
+	scene?: Scene
+}
+
+type SelectMode = 'click' | 'lasso'
+
+const ASSIGNED_CLASS = 'scene-authoring__shape--assigned'
+const HOVER_CLASS = 'scene-authoring__shape--hover'
+
+// A distinct outline colour per surface (golden-angle hues)
+const getSurfaceColor = (index: number) => `hsl(${Math.round((index * 137.5) % 360)}, 75%, 45%)`
+
+// Ray casting: whether a point lies inside a polygon
+function isInside(point: { x: number; y: number }, polygon: { x: number; y: number }[]): boolean {
+	let inside = false
+	for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+		const a = polygon[i]
+		const b = polygon[j]
+		if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+			inside = !inside
+		}
+	}
+	return inside
+}
+
+const download = (fileName: string, text: string, type: string) => {
+	const url = URL.createObjectURL(new Blob([text], { type }))
+	const link = document.createElement('a')
+	link.href = url
+	link.download = fileName
+	link.click()
+	URL.revokeObjectURL(url)
+}
+
+/**
+ * Admin tool for adding scenes: load an SVG, assign its shapes to surfaces by clicking,
+ * lasso or fill colour, and export the scene definition for `scenes.json`.
+ */
+export function SceneAuthoring() {
+	const [categories, setCategories] = useState<SurfaceCategory[]>([])
+	const [scenes, setScenes] = useState<Scene[]>([])
+	useEffect(() => {
+		Promise.all([loadCategories(), loadScenes()]).then(([loadedCategories, loadedScenes]) => {
+			setCategories(loadedCategories)
+			setScenes(loadedScenes.filter((scene) => !isPhotoScene(scene)))
+		})
+	}, [])
+
+	const svgRef = useRef<SVGSVGElement>(null)
+	const stageRef = useRef<HTMLDivElement>(null)
+	const [source, setSource] = useState<AuthoringSource | null>(null)
+	// Bumped once the artwork has loaded, so what is derived from it is worked out again
+	const [loadCount, setLoadCount] = useState(0)
+	const [assignments, setAssignments] = useState<SurfaceAssignments>(new Map())
+	// Surface clicks and lassos assign to; '' removes elements from their surface
+	const [activeSurface, setActiveSurface] = useState<TextureCategory>('')
+	const [mode, setMode] = useState<SelectMode>('click')
+	const [lasso, setLasso] = useState<{ x: number; y: number }[] | null>(null)
+	const [hoveredFill, setHoveredFill] = useState<string | null>(null)
+	const [meta, setMeta] = useState({ id: '', name: '', baseImageUrl: '' })
+	const [definition, setDefinition] = useState<{ json: string; svg: string | null } | null>(null)
+	const [error, setError] = useState<string | null>(null)
+
+	const surfaceIds = useMemo(() => getSurfaceIds(categories), [categories])
+	useEffect(() => {
+		if (!activeSurface && surfaceIds.length > 0) setActiveSurface(surfaceIds[0])
+	}, [surfaceIds])
+
+	useEffect(() => {
+		const svg = svgRef.current
+		if (!svg || !source) return
+		const fakeScene: Scene = source.scene ?? {
+			id: 'authoring',
+			name: source.fileName,
+			baseImageUrl: source.fileName,
+			maskCountertopUrl: '',
+			maskBacksplashUrl: '',
+			maskCabinetUrl: '',
+			maskFloorUrl: '',
+			isDefault: false,
+			order: 0,
+		}
+		loadScene(svg, fakeScene, source.svgText)
+			.then(() => {
+				setAssignments(source.scene ? readSceneAssignments(svg, source.scene, categories) : new Map())
+				setDefinition(null)
+				setError(null)
+				setLoadCount((n) => n + 1)
+			})
+			.catch((e) => setError(e instanceof Error ? e.message : String(e)))
+	}, [source])
+
+	const fillUsage = useMemo(() => (svgRef.current && loadCount > 0 ? getFillUsage(svgRef.current) : []), [loadCount])
+
+	// Outline assigned shapes in their surface's colour
+	useEffect(() => {
+		const svg = svgRef.current
+		if (!svg) return
+		getSceneShapes(svg).forEach((el) => {
+			const surface = assignments.get(el)
+			el.classList.toggle(ASSIGNED_CLASS, !!surface)
+			if (surface) el.style.setProperty('--surface-color', getSurfaceColor(surfaceIds.indexOf(surface)))
+			else el.style.removeProperty('--surface-color')
+		})
+	}, [assignments, surfaceIds, loadCount])
+
+	useEffect(() => {
+		const svg = svgRef.current
+		if (!svg) return
+		const hovered = new Set(fillUsage.find((u) => u.fill === hoveredFill)?.elements ?? [])
+		getSceneShapes(svg).forEach((el) => el.classList.toggle(HOVER_CLASS, hovered.has(el)))
+	}, [hoveredFill, fillUsage])
+
+	const assign = (elements: SVGElement[], surface: TextureCategory) => {
+		setAssignments((prev) => {
+			const next = new Map(prev)
+			elements.forEach((el) => (surface ? next.set(el, surface) : next.delete(el)))
+			return next
+		})
+		setDefinition(null)
+	}
+
+	const openFile = async (e: ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0]
+		if (!file) return
+		const svgText = await file.text()
+		const id = file.name.replace(/\.svg$/i, '').toLowerCase().replace(/[^a-z0-9]+/g, '-')
+		setMeta({ id, name: file.name.replace(/\.svg$/i, ''), baseImageUrl: `scenes/${file.name}` })
+		setSource({ fileName: file.name, svgText })
+	}
+
+	const openScene = async (sceneId: string) => {
+		const scene = scenes.find((s) => s.id === sceneId)
+		if (!scene) return
+		try {
+			const svgText = await fetchSceneSvg(scene)
+			if (svgText === null) return
+			setMeta({ id: scene.id, name: scene.name, baseImageUrl: scene.baseImageUrl })
+			setSource({ fileName: scene.baseImageUrl.split('/').pop() ?? `${scene.id}.svg`, svgText, scene })
+		} catch (e) {
+			setError(e instanceof Error ? e.message : String(e))
+		}
+	}
+
+	const getShapeAt = (target: EventTarget | null): SVGElement | null => {
+		const shape = target instanceof Element ? target.closest(SHAPE_SELECTOR) : null
+		return shape && !shape.closest('defs') ? (shape as SVGElement) : null
+	}
+
+	// Clicking a shape assigns it to the active surface, or takes it off again
+	const handleClick = (e: MouseEvent<SVGSVGElement>) => {
+		if (mode !== 'click') return
+		const shape = getShapeAt(e.target)
+		if (!shape) return
+		assign([shape], assignments.get(shape) === activeSurface ? '' : activeSurface)
+	}
+
+	const toStagePoint = (e: PointerEvent) => {
+		const rect = stageRef.current?.getBoundingClientRect()
+		return { x: e.clientX - (rect?.left ?? 0), y: e.clientY - (rect?.top ?? 0) }
+	}
+
+	const handlePointerDown = (e: PointerEvent<SVGSVGElement>) => {
+		if (mode !== 'lasso' || e.button !== 0) return
+		e.currentTarget.setPointerCapture(e.pointerId)
+		setLasso([toStagePoint(e)])
+	}
+
+	const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+		if (lasso) setLasso([...lasso, toStagePoint(e)])
+	}
+
+	// Everything whose centre is inside the lasso joins the active surface
+	const handlePointerUp = () => {
+		const svg = svgRef.current
+		const stage = stageRef.current?.getBoundingClientRect()
+		if (lasso && lasso.length > 2 && svg && stage) {
+			const enclosed = getSceneShapes(svg).filter((el) => {
+				const rect = el.getBoundingClientRect()
+				return isInside({ x: rect.left + rect.width / 2 - stage.left, y: rect.top + rect.height / 2 - stage.top }, lasso)
+			})
+			assign(enclosed, activeSurface)
+		}
+		setLasso(null)
+	}
+
+	const generate = () => {
+		const svg = svgRef.current
+		if (!svg || !source) return
+		const previous: SceneSurfaces = source.scene?.surfaces ?? {}
+		const { surfaces, addedIds } = buildSceneSurfaces(svg, assignments, previous)
+		const scene: Scene = {
+			maskCountertopUrl: '',
+			maskBacksplashUrl: '',
+			maskCabinetUrl: '',
+			maskFloorUrl: '',
+			isDefault: false,
+			order: scenes.length,
+			...source.scene,
+			id: meta.id,
+			name: meta.name,
+			baseImageUrl: meta.baseImageUrl,
+			surfaces,
+		}
+
+		// Elements given an id need it in the artwork as well; the working copy has the same
+		// elements in the same order as the original file
+		let svgMarkup: string | null = null
+		if (addedIds) {
+			const original = new DOMParser().parseFromString(source.svgText, 'image/svg+xml')
+			const originalElements = Array.from(original.documentElement.querySelectorAll('*'))
+			Array.from(svg.querySelectorAll('*')).forEach((el, i) => {
+				if (el.id && originalElements[i] && !originalElements[i].id) originalElements[i].id = el.id
+			})
+			svgMarkup = new XMLSerializer().serializeToString(original)
+		}
+		setDefinition({ json: JSON.stringify(toSceneEntry(scene), null, '\t'), svg: svgMarkup })
+	}
+
+	const counts = useMemo(() => {
+		const result = new Map<TextureCategory, number>()
+		assignments.forEach((surface) => result.set(surface, (result.get(surface) ?? 0) + 1))
+		return result
+	}, [assignments])
+
+	return (
+		<div className="scene-authoring">
+			<header className="scene-authoring__header">
+				<h1 className="scene-authoring__title">Scene authoring</h1>
+				<label className="scene-authoring__file">
+					Load SVG…
+					<input type="file" accept=".svg,image/svg+xml" onChange={openFile} />
+				</label>
+				<select
+					className="scene-authoring__select"
+					value={source?.scene?.id ?? ''}
+					onChange={(e) => openScene(e.target.value)}
+					aria-label="Edit an existing scene"
+				>
+					<option value="">…or edit a scene</option>
+					{scenes.map((scene) => (
+						<option key={scene.id} value={scene.id}>
+							{scene.name}
+						</option>
+					))}
+				</select>
+				<div className="scene-authoring__modes" role="group" aria-label="Selection mode">
+					{(['click', 'lasso'] as SelectMode[]).map((m) => (
+						<button
+							key={m}
+							type="button"
+							className={`scene-authoring__mode ${mode === m ? 'scene-authoring__mode--active' : ''}`}
+							onClick={() => setMode(m)}
+							aria-pressed={mode === m}
+						>
+							{m === 'click' ? 'Click' : 'Lasso'}
+						</button>
+					))}
+				</div>
+			</header>
+			{error && <p className="scene-authoring__error">{error}</p>}
+			<div className="scene-authoring__body">
+				<aside className="scene-authoring__panel" aria-label="Surfaces">
+					<h2 className="scene-authoring__heading">Assign to</h2>
+					{surfaceIds.map((surface, index) => (
+						<label key={surface} className="scene-authoring__surface">
+							<input
+								type="radio"
+								name="surface"
+								checked={activeSurface === surface}
+								onChange={() => setActiveSurface(surface)}
+							/>
+							<span className="scene-authoring__dot" style={{ background: getSurfaceColor(index) }} aria-hidden />
+							<span className="scene-authoring__surface-label">{getSurfaceLabel(categories, surface)}</span>
+							<span className="scene-authoring__count">{counts.get(surface) ?? 0}</span>
+						</label>
+					))}
+					<label className="scene-authoring__surface">
+						<input type="radio" name="surface" checked={activeSurface === ''} onChange={() => setActiveSurface('')} />
+						<span className="scene-authoring__dot scene-authoring__dot--none" aria-hidden />
+						<span className="scene-authoring__surface-label">No surface (remove)</span>
+					</label>
+				</aside>
+				<div
+					ref={stageRef}
+					className={`scene-authoring__stage ${mode === 'lasso' ? 'scene-authoring__stage--lasso' : ''}`}
+				>
+					{!source && <p className="scene-authoring__empty">Load an SVG or pick a scene to start.</p>}
+					<svg
+						ref={svgRef}
+						className="scene-authoring__svg"
+						onClick={handleClick}
+						onPointerDown={handlePointerDown}
+						onPointerMove={handlePointerMove}
+						onPointerUp={handlePointerUp}
+						onPointerCancel={() => setLasso(null)}
+					/>
+					{lasso && (
+						<svg className="scene-authoring__lasso" aria-hidden>
+							<polygon points={lasso.map((p) => `${p.x},${p.y}`).join(' ')} />
+						</svg>
+					)}
+				</div>
+				<aside className="scene-authoring__panel" aria-label="Fill colours">
+					<h2 className="scene-authoring__heading">Fill colours</h2>
+					{fillUsage.map(({ fill, elements }) => {
+						const assigned = elements.filter((el) => assignments.has(el)).length
+						return (
+							<div
+								key={fill}
+								className="scene-authoring__fill"
+								onMouseEnter={() => setHoveredFill(fill)}
+								onMouseLeave={() => setHoveredFill(null)}
+							>
+								<span className="scene-authoring__swatch" style={{ background: fill }} aria-hidden />
+								<span className="scene-authoring__hex">{fill}</span>
+								<span className="scene-authoring__count" title="Assigned of all shapes with this fill">
+									{assigned}/{elements.length}
+								</span>
+								<button type="button" className="scene-authoring__assign" onClick={() => assign(elements, activeSurface)}>
+									{activeSurface ? 'Assign all' : 'Remove all'}
+								</button>
+							</div>
+						)
+					})}
+				</aside>
+			</div>
+			{source && (
+				<section className="scene-authoring__export" aria-label="Scene definition">
+					<div className="scene-authoring__meta">
+						{(['id', 'name', 'baseImageUrl'] as const).map((field) => (
+							<label key={field} className="scene-authoring__field">
+								<span>{field === 'id' ? 'ID' : field === 'name' ? 'Name' : 'Base image URL'}</span>
+								<input
+									type="text"
+									value={meta[field]}
+									onChange={(e) => {
+										setMeta({ ...meta, [field]: e.target.value })
+										setDefinition(null)
+									}}
+								/>
+							</label>
+						))}
+						<button
+							type="button"
+							className="scene-authoring__button scene-authoring__button--primary"
+							onClick={generate}
+							disabled={!meta.id}
+						>
+							Generate scene definition
+						</button>
+					</div>
+					{definition && (
+						<>
+							<textarea className="scene-authoring__json" value={definition.json} readOnly rows={12} />
+							<div className="scene-authoring__actions">
+								<button
+									type="button"
+									className="scene-authoring__button"
+									onClick={() => navigator.clipboard?.writeText(definition.json)}
+								>
+									Copy
+								</button>
+								<button
+									type="button"
+									className="scene-authoring__button"
+									onClick={() => download(`${meta.id}.json`, definition.json, 'application/json')}
+								>
+									Download JSON
+								</button>
+								{definition.svg && (
+									<button
+										type="button"
+										className="scene-authoring__button"
+										onClick={() => download(source.fileName, definition.svg!, 'image/svg+xml')}
+										title="Some assigned elements had no id; the artwork needs the ids they were given"
+									>
+										Download SVG with ids
+									</button>
+								)}
+							</div>
+							<p className="scene-authoring__hint">
+								Add the definition to the <code>scenes</code> list of <code>content/scenes.json</code> (or enter it in the
+								CMS){definition.svg ? ' and replace the artwork with the downloaded SVG' : ''}.
+							</p>
+						</>
+					)}
+				</section>
+			)}
+		</div>
+	)
+}
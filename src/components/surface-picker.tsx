@@ -0,0 +1,115 @@
+import { KeyboardEvent, useEffect, useLayoutEffect, useRef, useState } from 'react'
+import type { TextureOption } from '../types'
+import { TextureSelector } from './texture-selector'
+import './surface-picker.css'
+
+interface SurfacePickerProps {
+	title: string
+	/** Viewport point the picker opens next to, e.g. where the surface was clicked */
+	anchor: { x: number; y: number }
+	options: TextureOption[]
+	selectedId: string
+	onSelect: (id: string) => void
+	/** For groups: the choice that follows the category's finish */
+	inherit?: { label: string; option: TextureOption | undefined }
+	onClose: () => void
+}
+
+const OFFSET = 12
+const VIEWPORT_MARGIN = 12
+
+/** Popover with the options of one surface, opened from the preview */
+export function SurfacePicker({
+	title,
+	anchor,
+	options,
+	selectedId,
+	onSelect,
+	inherit,
+	onClose,
+}: SurfacePickerProps) {
+	const ref = useRef<HTMLDivElement>(null)
+	const [position, setPosition] = useState({ left: anchor.x + OFFSET, top: anchor.y + OFFSET })
+
+	// Keep the picker inside the viewport, flipping it above or left of the anchor if needed
+	useLayoutEffect(() => {
+		const el = ref.current
+		if (!el) return
+		const { offsetWidth: width, offsetHeight: height } = el
+		let left = anchor.x + OFFSET
+		let top = anchor.y + OFFSET
+		if (left + width > window.innerWidth - VIEWPORT_MARGIN) left = anchor.x - OFFSET - width
+		if (top + height > window.innerHeight - VIEWPORT_MARGIN) top = anchor.y - OFFSET - height
+		setPosition({
+			left: Math.max(VIEWPORT_MARGIN, left),
+			top: Math.max(VIEWPORT_MARGIN, top),
+		})
+	}, [anchor.x, anchor.y])
+
+	// Take the focus while open and hand it back (e.g. to the surface) when closed
+	useEffect(() => {
+		const previous = document.activeElement as HTMLElement | SVGElement | null
+		ref.current?.focus()
+		return () => previous?.focus?.()
+	}, [])
+
+	useEffect(() => {
+		const handlePointerDown = (e: PointerEvent) => {
+			if (!ref.current?.contains(e.target as Node)) onClose()
+		}
+		document.addEventListener('pointerdown', handlePointerDown)
+		return () => document.removeEventListener('pointerdown', handlePointerDown)
+	}, [onClose])
+
+	const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+		if (e.key === 'Escape') {
+			e.stopPropagation()
+			onClose()
+		}
+	}
+
+	const colors = options.filter((opt) => opt.type === 'color')
+	const textures = options.filter((opt) => opt.type === 'texture')
+
+	return (
+		<div
+			ref={ref}
+			className="surface-picker"
+			role="dialog"
+			aria-label={title}
+			tabIndex={-1}
+			style={position}
+			onKeyDown={handleKeyDown}
+		>
+			<div className="surface-picker__header">
+				<h2 className="surface-picker__title">{title}</h2>
+				<button type="button" className="surface-picker__close" onClick={onClose} aria-label="Close">
+					<svg width="14" height="14" viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+						<path d="M4 4L12 12M12 4L4 12" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
+					</svg>
+				</button>
+			</div>
+			<div className="surface-picker__body">
+				{colors.length > 0 && (
+					<TextureSelector
+						title="Colors"
+						options={colors}
+						selectedId={selectedId}
+						onSelect={onSelect}
+						inherit={inherit}
+					/>
+				)}
+				{textures.length > 0 && (
+					<TextureSelector
+						title="Textures"
+						options={textures}
+						selectedId={selectedId}
+						onSelect={onSelect}
+						inherit={colors.length > 0 ? undefined : inherit}
+						groupBy="material"
+					/>
+				)}
+			</div>
+		</div>
+	)
+}
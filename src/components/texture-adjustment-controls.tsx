@@ -0,0 +1,85 @@
+import type { TextureAdjustments, TextureCategory, TextureOption } from '../types'
+import './texture-adjustment-controls.css'
+
+interface TextureAdjustmentControlsProps {
+	title: string
+	category: TextureCategory
+	/** Currently selected option; only texture images can be adjusted */
+	option: TextureOption | undefined
+	value: TextureAdjustments | undefined
+	onChange: (adjustments: TextureAdjustments | undefined) => void
+}
+
+const SLIDERS: { key: 'hue' | 'brightness' | 'contrast'; label: string; min: number; max: number; unit: string }[] = [
+	{ key: 'hue', label: 'Hue', min: -180, max: 180, unit: '°' },
+	{ key: 'brightness', label: 'Brightness', min: -100, max: 100, unit: '' },
+	{ key: 'contrast', label: 'Contrast', min: -100, max: 100, unit: '' },
+]
+
+/** Hue, brightness, contrast and tint of a texture image, e.g. another stain of a wood */
+export function TextureAdjustmentControls({ title, category, option, value, onChange }: TextureAdjustmentControlsProps) {
+	if (option?.type !== 'texture') return null
+
+	const update = (changes: Partial<TextureAdjustments>) => onChange({ ...value, ...changes })
+	const id = `texture-adjustments-${category}`
+
+	return (
+		<div className="texture-adjustment-controls">
+			<h3 className="texture-adjustment-controls__title">{title}</h3>
+			{SLIDERS.map(({ key, label, min, max, unit }) => (
+				<div key={key} className="texture-adjustment-controls__row">
+					<label className="texture-adjustment-controls__label" htmlFor={`${id}-${key}`}>
+						{label}
+					</label>
+					<div className="texture-adjustment-controls__pair">
+						<input
+							id={`${id}-${key}`}
+							type="range"
+							min={min}
+							max={max}
+							step={1}
+							className="texture-adjustment-controls__range"
+							value={value?.[key] ?? 0}
+							onChange={(e) => update({ [key]: Number(e.target.value) })}
+						/>
+						<span className="texture-adjustment-controls__value">
+							{value?.[key] ?? 0}
+							{unit}
+						</span>
+					</div>
+				</div>
+			))}
+			<div className="texture-adjustment-controls__row">
+				<label className="texture-adjustment-controls__label" htmlFor={`${id}-tint`}>
+					Tint
+				</label>
+				<div className="texture-adjustment-controls__pair">
+					<input
+						id={`${id}-tint`}
+						type="color"
+						className="texture-adjustment-controls__color"
+						value={value?.tint ?? '#8a5a2b'}
+						onChange={(e) => update({ tint: e.target.value, tintStrength: value?.tintStrength || 50 })}
+						aria-label="Tint colour"
+					/>
+					<input
+						type="range"
+						min={0}
+						max={100}
+						step={1}
+						className="texture-adjustment-controls__range"
+						value={value?.tintStrength ?? 0}
+						onChange={(e) => update({ tint: value?.tint ?? '#8a5a2b', tintStrength: Number(e.target.value) })}
+						aria-label="Tint strength"
+					/>
+					<span className="texture-adjustment-controls__value">{value?.tintStrength ?? 0}%</span>
+				</div>
+			</div>
+			{value && (
+				<button type="button" className="texture-adjustment-controls__reset" onClick={() => onChange(undefined)}>
+					Reset adjustments
+				</button>
+			)}
+		</div>
+	)
+}
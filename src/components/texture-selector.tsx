@@ -1,6 +1,22 @@
-import { useState, KeyboardEvent, useEffect } from 'react'
+import { useState, KeyboardEvent, useEffect, useMemo } from 'react'
 import type { TextureOption } from '../types'
+import {
+	CATALOG_GROUPINGS,
+	filterOptions,
+	groupOptions,
+	hasCatalogMetadata,
+	NO_FILTERS,
+	sortOptions,
+	type CatalogFilters,
+	type CatalogGrouping,
+	type CatalogSort,
+} from '../lib/catalog-filters'
 import { getAssetUrl } from '../lib/content'
+import { getSourceLabel } from '../lib/content-sources'
+import { getFinishLabel, getOptionLabel } from '../lib/finishes'
+import { getProductDetails } from '../lib/product-details'
+import { useContent } from '../lib/use-content'
+import { CatalogToolbar } from './catalog-toolbar'
 import './texture-selector.css'
 
 interface TextureSelectorProps {
@@ -8,6 +24,12 @@ interface TextureSelectorProps {
 	options: TextureOption[]
 	selectedId: string
 	onSelect: (id: string) => void
+	/** The current scene has no surface for this category */
+	unavailable?: boolean
+	/** Offer a first choice that follows another selection (selected as ''), e.g. a cabinet group following the cabinets */
+	inherit?: { label: string; option: TextureOption | undefined }
+	/** Sections to start with, e.g. by material; users can change it where the options have one */
+	groupBy?: CatalogGrouping
 }
 
 export function TextureSelector({
@@ -15,26 +37,26 @@ export function TextureSelector({
 	options,
 	selectedId,
 	onSelect,
+	unavailable = false,
+	inherit,
+	groupBy = 'none',
 }: TextureSelectorProps) {
-	// Preload all texture images when component mounts
+	const { sources } = useContent()
+	const [filters, setFilters] = useState<CatalogFilters>(NO_FILTERS)
+	const [sort, setSort] = useState<CatalogSort>('catalog')
+	const [grouping, setGrouping] = useState<CatalogGrouping>(groupBy)
+	const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set())
+
+	// Preload the texture images whenever the list of options changes
 	useEffect(() => {
-		const textureOptions = options.filter(opt => opt.type === 'texture')
-		const preloadPromises = textureOptions.map(opt => {
-			return new Promise<void>((resolve) => {
+		options
+			.filter((opt) => opt.type === 'texture')
+			.forEach((opt) => {
 				const img = new Image()
-				img.onload = () => resolve()
-				img.onerror = () => {
-					console.warn(`Failed to preload texture: ${opt.value}`)
-					resolve() // Resolve anyway to not block other images
-				}
+				img.onerror = () => console.warn(`Failed to preload texture: ${opt.value}`)
 				img.src = getAssetUrl(opt.value)
 			})
-		})
-		
-		Promise.all(preloadPromises).then(() => {
-			console.log(`[TextureSelector] Preloaded ${textureOptions.length} textures for ${title}`)
-		})
-	}, [options, title])
+	}, [options])
 
 	const handleKeyDown = (e: KeyboardEvent<HTMLButtonElement>, id: string) => {
 		if (e.key === 'Enter' || e.key === ' ') {
@@ -43,57 +65,226 @@ export function TextureSelector({
 		}
 	}
 
+	// Arrow keys move between the options shown, across sections; Home and End go to the ends
+	const handleGridKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+		const buttons = Array.from(e.currentTarget.querySelectorAll<HTMLButtonElement>('[role="option"]'))
+		const index = buttons.indexOf(document.activeElement as HTMLButtonElement)
+		if (index < 0) return
+		const target = getKeyboardTarget(buttons, index, e.key)
+		if (target) {
+			e.preventDefault()
+			target.focus()
+		}
+	}
+
+	const groupings = useMemo(
+		() =>
+			CATALOG_GROUPINGS.map((g) => g.value).filter(
+				(value) => value !== 'none' && groupOptions(options, value, sources).length > 1,
+			),
+		[options, sources],
+	)
+	// Lists with nothing to filter, sort or group by are shown without search and filters
+	const showToolbar = useMemo(() => groupings.length > 0 || hasCatalogMetadata(options), [groupings, options])
+	const shown = useMemo(
+		() => (showToolbar ? sortOptions(filterOptions(options, filters, sources), sort) : options),
+		[showToolbar, options, filters, sources, sort],
+	)
+	const sections = groupings.includes(grouping) ? groupOptions(shown, grouping, sources) : null
+
+	const toggleSection = (label: string) =>
+		setCollapsed((prev) => {
+			const next = new Set(prev)
+			if (!next.delete(label)) next.add(label)
+			return next
+		})
+
+	const renderOption = (opt: TextureOption) => {
+		const isSelected = opt.id === selectedId
+		const supplier = getSourceLabel(sources, opt.source)
+		return (
+			<button
+				key={opt.id}
+				type="button"
+				role="option"
+				aria-selected={isSelected}
+				aria-label={`Select ${getOptionLabel(opt)}`}
+				className={`texture-selector__option ${isSelected ? 'texture-selector__option--selected' : ''}`}
+				onClick={() => onSelect(opt.id)}
+				onKeyDown={(e) => handleKeyDown(e, opt.id)}
+				title={getOptionTooltip(opt, supplier)}
+			>
+				<div className="texture-selector__preview">
+					<OptionPreview option={opt} selected={isSelected} />
+				</div>
+				<span className="texture-selector__label">{opt.label}</span>
+				{opt.finish && <span className="texture-selector__finish">{getFinishLabel(opt.finish)}</span>}
+				{supplier && <span className="texture-selector__source">{supplier}</span>}
+			</button>
+		)
+	}
+
+	const inheritOption = inherit && (
+		<button
+			type="button"
+			role="option"
+			aria-selected={!selectedId}
+			aria-label={inherit.label}
+			className={`texture-selector__option texture-selector__option--inherit ${!selectedId ? 'texture-selector__option--selected' : ''}`}
+			onClick={() => onSelect('')}
+			onKeyDown={(e) => handleKeyDown(e, '')}
+			title={inherit.option ? `${inherit.label} (${getOptionLabel(inherit.option)})` : inherit.label}
+		>
+			<div className="texture-selector__preview">
+				<OptionPreview option={inherit.option} selected={!selectedId} />
+			</div>
+			<span className="texture-selector__label">{inherit.label}</span>
+		</button>
+	)
+
 	return (
-		<div className="texture-selector">
-			<h3 className="texture-selector__title">{title}</h3>
-			<div className="texture-selector__grid" role="listbox" aria-label={title}>
-				{options.map((opt) => {
-					const isSelected = opt.id === selectedId
-					return (
-						<button
-							key={opt.id}
-							type="button"
-							role="option"
-							aria-selected={isSelected}
-							aria-label={`Select ${opt.label}`}
-							className={`texture-selector__option ${isSelected ? 'texture-selector__option--selected' : ''}`}
-							onClick={() => onSelect(opt.id)}
-							onKeyDown={(e) => handleKeyDown(e, opt.id)}
-							title={opt.label}
-						>
-							<div className="texture-selector__preview">
-								{opt.type === 'color' ? (
-									<span
-										className="texture-selector__swatch"
-										style={{ backgroundColor: opt.value }}
-										aria-hidden
-									/>
-								) : (
-									<TextureImage src={getAssetUrl(opt.value)} alt={opt.label} />
-								)}
-								{isSelected && (
-									<span className="texture-selector__checkmark" aria-hidden>
-										<svg viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
-											<path
-												d="M13.5 4L6 11.5L2.5 8"
-												stroke="currentColor"
-												strokeWidth="2"
-												strokeLinecap="round"
-												strokeLinejoin="round"
-											/>
-										</svg>
-									</span>
-								)}
+		<div className={`texture-selector ${unavailable ? 'texture-selector--unavailable' : ''}`}>
+			<h3 className="texture-selector__title">
+				{title}
+				{unavailable && <span className="texture-selector__note">Not in this view</span>}
+			</h3>
+			{showToolbar && (
+				<CatalogToolbar
+					title={title}
+					options={options}
+					filters={filters}
+					onFiltersChange={setFilters}
+					sort={sort}
+					onSortChange={setSort}
+					groupings={groupings}
+					grouping={groupings.includes(grouping) ? grouping : 'none'}
+					onGroupingChange={setGrouping}
+					matchCount={shown.length}
+				/>
+			)}
+			<div className="texture-selector__options" onKeyDown={handleGridKeyDown}>
+				{!sections ? (
+					<div className="texture-selector__grid" role="listbox" aria-label={title}>
+						{inheritOption}
+						{shown.map(renderOption)}
+					</div>
+				) : (
+					<>
+						{inheritOption && (
+							<div className="texture-selector__grid" role="listbox" aria-label={title}>
+								{inheritOption}
 							</div>
-							<span className="texture-selector__label">{opt.label}</span>
+						)}
+						{sections.map((section, index) => {
+							const open = !collapsed.has(section.label)
+							const id = `${title}-section-${index}`.toLowerCase().replace(/[^a-z0-9]+/g, '-')
+							return (
+								<div key={section.label} className="texture-selector__section">
+									<button
+										type="button"
+										className="texture-selector__section-toggle"
+										onClick={() => toggleSection(section.label)}
+										aria-expanded={open}
+										aria-controls={id}
+									>
+										<span className="texture-selector__section-chevron" aria-hidden>
+											{open ? '▾' : '▸'}
+										</span>
+										{section.label}
+										<span className="texture-selector__section-count">{section.options.length}</span>
+									</button>
+									{open && (
+										<div
+											id={id}
+											className="texture-selector__grid"
+											role="listbox"
+											aria-label={`${title}: ${section.label}`}
+										>
+											{section.options.map(renderOption)}
+										</div>
+									)}
+								</div>
+							)
+						})}
+					</>
+				)}
+				{shown.length === 0 && (
+					<p className="texture-selector__empty">
+						No options match.{' '}
+						<button type="button" className="texture-selector__empty-clear" onClick={() => setFilters(NO_FILTERS)}>
+							Clear filters
 						</button>
-					)
-				})}
+					</p>
+				)}
 			</div>
 		</div>
 	)
 }
 
+/**
+ * The option an arrow key moves focus to: the previous or next one, or the nearest in the
+ * row above or below (rows found by position, since the grid wraps to its width)
+ */
+function getKeyboardTarget(buttons: HTMLButtonElement[], index: number, key: string): HTMLButtonElement | undefined {
+	if (key === 'ArrowLeft') return buttons[index - 1]
+	if (key === 'ArrowRight') return buttons[index + 1]
+	if (key === 'Home') return buttons[0]
+	if (key === 'End') return buttons[buttons.length - 1]
+	if (key !== 'ArrowUp' && key !== 'ArrowDown') return undefined
+
+	const rects = buttons.map((button) => button.getBoundingClientRect())
+	const current = rects[index]
+	const down = key === 'ArrowDown'
+	const candidates = buttons
+		.map((button, i) => ({ button, rect: rects[i] }))
+		.filter(({ rect }) => (down ? rect.top > current.bottom - 1 : rect.bottom < current.top + 1))
+	if (candidates.length === 0) return undefined
+	// The adjacent row is the candidates' nearest top edge
+	const rowTop = down
+		? Math.min(...candidates.map(({ rect }) => rect.top))
+		: Math.max(...candidates.map(({ rect }) => rect.top))
+	const row = candidates.filter(({ rect }) => Math.abs(rect.top - rowTop) < 1)
+	const distance = (rect: DOMRect) => Math.abs(rect.left - current.left)
+	return row.reduce((best, item) => (distance(item.rect) < distance(best.rect) ? item : best)).button
+}
+
+/** "White Marble (Gloss) – Supplier", then the product details line by line */
+function getOptionTooltip(option: TextureOption, supplier: string | undefined): string {
+	const name = supplier ? `${getOptionLabel(option)} – ${supplier}` : getOptionLabel(option)
+	return [name, ...getProductDetails(option)].join('\n')
+}
+
+function OptionPreview({ option, selected }: { option: TextureOption | undefined; selected: boolean }) {
+	return (
+		<>
+			{!option ? (
+				<span className="texture-selector__swatch" aria-hidden />
+			) : option.type === 'color' ? (
+				<span
+					className="texture-selector__swatch"
+					style={{ backgroundColor: option.value }}
+					aria-hidden
+				/>
+			) : (
+				<TextureImage src={getAssetUrl(option.value)} alt={option.label} />
+			)}
+			{selected && (
+				<span className="texture-selector__checkmark" aria-hidden>
+					<svg viewBox="0 0 16 16" fill="none" xmlns="http://www.w3.org/2000/svg">
+						<path
+							d="M13.5 4L6 11.5L2.5 8"
+							stroke="currentColor"
+							strokeWidth="2"
+							strokeLinecap="round"
+							strokeLinejoin="round"
+						/>
+					</svg>
+				</span>
+			)}
+		</>
+	)
+}
+
 function TextureImage({ src, alt }: { src: string; alt: string }) {
 	const [imageError, setImageError] = useState(false)
 	const [imageLoaded, setImageLoaded] = useState(false)
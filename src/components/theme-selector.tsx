@@ -1,12 +1,14 @@
 import { KeyboardEvent, useState } from 'react'
-import type { Theme, TextureOption } from '../types'
-import { getAssetUrl } from '../lib/content'
+import type { SurfaceCategory, Theme, TextureOption } from '../types'
+import { getAssetUrl, getSurfaceIds, getSurfaceLabel, resolveSelectionOption } from '../lib/content'
 import './theme-selector.css'
 
 interface ThemeSelectorProps {
 	themes: Theme[]
 	selectedThemeId: string | null
 	onSelect: (theme: Theme) => void
+	/** Palette order; categories a theme leaves out are skipped */
+	categories: SurfaceCategory[]
 	textures: Map<string, TextureOption>
 }
 
@@ -14,6 +16,7 @@ export function ThemeSelector({
 	themes,
 	selectedThemeId,
 	onSelect,
+	categories,
 	textures,
 }: ThemeSelectorProps) {
 	const handleKeyDown = (
@@ -27,22 +30,23 @@ export function ThemeSelector({
 	}
 
 	const getThemeTextures = (theme: Theme) => {
-		const result = {
-			countertop: textures.get(theme.countertop),
-			backsplash: textures.get(theme.backsplash),
-			cabinet: textures.get(theme.cabinet),
-			floor: textures.get(theme.floor),
-			background: textures.get(theme.background),
-		}
+		const result = getSurfaceIds(categories)
+			.filter((id) => theme.selections[id])
+			.map((id) => ({
+				id,
+				label: getSurfaceLabel(categories, id),
+				texture: resolveSelectionOption(textures, id, theme.selections[id]),
+			}))
 		
 		// Debug logging for texture-based themes
 		if (theme.id.startsWith('texture-')) {
-			console.log(`[ThemeSelector] Theme ${theme.id}:`, {
-				countertop: result.countertop ? { id: result.countertop.id, type: result.countertop.type } : null,
-				backsplash: result.backsplash ? { id: result.backsplash.id, type: result.backsplash.type } : null,
-				cabinet: result.cabinet ? { id: result.cabinet.id, type: result.cabinet.type } : null,
-				floor: result.floor ? { id: result.floor.id, type: result.floor.type } : null,
-			})
+			console.log(
+				`[ThemeSelector] Theme ${theme.id}:`,
+				Object.fromEntries(result.map(({ id, texture }) => [
+					id,
+					texture ? { id: texture.id, type: texture.type } : null,
+				])),
+			)
 		}
 		
 		return result
@@ -77,31 +81,14 @@ export function ThemeSelector({
 									</span>
 								)}
 								<div className="theme-selector__palette" aria-label="Texture palette">
-									<ThemeSwatch
-										texture={themeTextures.countertop}
-										title="Countertop"
-										ariaLabel="Countertop"
-									/>
-									<ThemeSwatch
-										texture={themeTextures.backsplash}
-										title="Backsplash"
-										ariaLabel="Backsplash"
-									/>
-									<ThemeSwatch
-										texture={themeTextures.cabinet}
-										title="Cabinet"
-										ariaLabel="Cabinet"
-									/>
-									<ThemeSwatch
-										texture={themeTextures.floor}
-										title="Floor"
-										ariaLabel="Floor"
-									/>
-									<ThemeSwatch
-										texture={themeTextures.background}
-										title="Background"
-										ariaLabel="Background"
-									/>
+									{themeTextures.map(({ id, label, texture }) => (
+										<ThemeSwatch
+											key={id}
+											texture={texture}
+											title={label}
+											ariaLabel={label}
+										/>
+									))}
 								</div>
 							</div>
 							{isSelected && (
@@ -0,0 +1,116 @@
+import type { TextureCategory, TextureOption, TileLayout, TileLayoutType } from '../types'
+import { TILE_LAYOUT_TYPES, getGroutColor, resolveTileLayout } from '../lib/tile-layouts'
+import './tile-layout-controls.css'
+
+interface TileLayoutControlsProps {
+	title: string
+	category: TextureCategory
+	/** Currently selected option; its own layout is the starting point */
+	option: TextureOption | undefined
+	value: Partial<TileLayout> | undefined
+	onChange: (layout: Partial<TileLayout> | undefined) => void
+}
+
+export function TileLayoutControls({
+	title,
+	category,
+	option,
+	value,
+	onChange,
+}: TileLayoutControlsProps) {
+	if (!option) return null
+
+	const layout = resolveTileLayout(category, option, value)
+	const update = (changes: Partial<TileLayout>) => onChange({ ...value, ...changes })
+	const groutColor = layout?.groutColor ?? (option.type === 'color' ? getGroutColor(option.value) : '#bdb7ad')
+	const id = `tile-layout-${category}`
+
+	return (
+		<div className="tile-layout-controls">
+			<h3 className="tile-layout-controls__title">{title}</h3>
+			<div className="tile-layout-controls__row">
+				<label className="tile-layout-controls__label" htmlFor={`${id}-type`}>
+					Layout
+				</label>
+				<select
+					id={`${id}-type`}
+					className="tile-layout-controls__select"
+					value={layout?.type ?? ''}
+					onChange={(e) => update({ type: (e.target.value || undefined) as TileLayoutType | undefined })}
+				>
+					{!option.layout && !(category === 'floor' && option.type === 'color') && (
+						<option value="">Continuous</option>
+					)}
+					{TILE_LAYOUT_TYPES.map((type) => (
+						<option key={type.value} value={type.value}>
+							{type.label}
+						</option>
+					))}
+				</select>
+			</div>
+			{layout && (
+				<>
+					<div className="tile-layout-controls__row">
+						<label className="tile-layout-controls__label" htmlFor={`${id}-width`}>
+							Tile size (mm)
+						</label>
+						<div className="tile-layout-controls__pair">
+							<input
+								id={`${id}-width`}
+								type="number"
+								min={20}
+								step={10}
+								className="tile-layout-controls__input"
+								value={layout.tileWidthMm}
+								onChange={(e) => update({ tileWidthMm: Math.max(20, Number(e.target.value) || 20) })}
+								aria-label="Tile length in mm"
+							/>
+							<span aria-hidden>×</span>
+							<input
+								type="number"
+								min={20}
+								step={10}
+								className="tile-layout-controls__input"
+								value={layout.tileHeightMm}
+								onChange={(e) => update({ tileHeightMm: Math.max(20, Number(e.target.value) || 20) })}
+								disabled={layout.type === 'hex'}
+								aria-label="Tile width in mm"
+							/>
+						</div>
+					</div>
+					<div className="tile-layout-controls__row">
+						<label className="tile-layout-controls__label" htmlFor={`${id}-grout`}>
+							Grout
+						</label>
+						<div className="tile-layout-controls__pair">
+							<input
+								id={`${id}-grout`}
+								type="color"
+								className="tile-layout-controls__color"
+								value={groutColor}
+								onChange={(e) => update({ groutColor: e.target.value })}
+								aria-label="Grout colour"
+							/>
+							<input
+								type="range"
+								min={0}
+								max={12}
+								step={1}
+								className="tile-layout-controls__range"
+								value={layout.groutWidthMm ?? 0}
+								onChange={(e) => update({ groutWidthMm: Number(e.target.value) })}
+								aria-label="Grout width in mm"
+							/>
+							<span className="tile-layout-controls__value">{layout.groutWidthMm ?? 0} mm</span>
+						</div>
+					</div>
+				</>
+			)}
+			{value && (
+				<button type="button" className="tile-layout-controls__reset" onClick={() => onChange(undefined)}>
+					Reset to material defaults
+				</button>
+			)}
+		</div>
+	)
+}
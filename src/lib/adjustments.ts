@@ -0,0 +1,88 @@
+import type { TextureAdjustments } from '../types'
+import { hexToRgb } from './colors'
+import { addGeneratedDef, findDef, hashKey } from './svg-defs'
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+// Rec. 709 luma, as used by feColorMatrix's own saturate and hueRotate
+const LUMA = [0.2126, 0.7152, 0.0722]
+
+/** Whether the adjustments change the image at all */
+export function hasAdjustments(adjustments: TextureAdjustments | undefined): adjustments is TextureAdjustments {
+	if (!adjustments) return false
+	const { hue, brightness, contrast, tint, tintStrength } = adjustments
+	return !!hue || !!brightness || !!contrast || (!!tint && !!tintStrength)
+}
+
+// Towards the tint, keeping each pixel's luminance: the tint's hue at the pixel's lightness
+function getTintMatrix(tint: string, strength: number): number[] {
+	const { r, g, b } = hexToRgb(tint)
+	const color = [r / 255, g / 255, b / 255]
+	const tintLuma = color.reduce((sum, c, i) => sum + c * LUMA[i], 0)
+	const gain = 1 / Math.max(0.25, tintLuma)
+	const s = Math.min(100, Math.max(0, strength)) / 100
+	return [0, 1, 2].flatMap((row) => [
+		...LUMA.map((luma, col) => (row === col ? 1 - s : 0) + s * color[row] * gain * luma),
+		0,
+		0,
+	]).concat([0, 0, 0, 1, 0])
+}
+
+/**
+ * Filter applying the adjustments to whatever uses it; created once per set of adjustments.
+ * Filtering happens in sRGB so the numbers mean what they do in image editors.
+ */
+export function getAdjustmentFilter(svg: SVGSVGElement, adjustments: TextureAdjustments): string {
+	const { hue = 0, brightness = 0, contrast = 0, tint, tintStrength = 0 } = adjustments
+	const id = `adjust-${hashKey(JSON.stringify([hue, brightness, contrast, tint, tintStrength]))}`
+	if (findDef(svg, id)) return id
+
+	const doc = svg.ownerDocument
+	const filter = doc.createElementNS(SVG_NS, 'filter')
+	filter.setAttribute('id', id)
+	filter.setAttribute('color-interpolation-filters', 'sRGB')
+
+	if (hue) {
+		const rotate = doc.createElementNS(SVG_NS, 'feColorMatrix')
+		rotate.setAttribute('type', 'hueRotate')
+		rotate.setAttribute('values', String(hue))
+		filter.appendChild(rotate)
+	}
+	if (tint && tintStrength) {
+		const toning = doc.createElementNS(SVG_NS, 'feColorMatrix')
+		toning.setAttribute('type', 'matrix')
+		toning.setAttribute('values', getTintMatrix(tint, tintStrength).map((v) => +v.toFixed(4)).join(' '))
+		filter.appendChild(toning)
+	}
+	if (brightness || contrast) {
+		// Contrast pivots around mid grey, then brightness scales the result
+		const gain = 1 + Math.max(-100, Math.min(100, brightness)) / 100
+		const spread = 1 + Math.max(-100, Math.min(100, contrast)) / 100
+		const transfer = doc.createElementNS(SVG_NS, 'feComponentTransfer')
+		;['feFuncR', 'feFuncG', 'feFuncB'].forEach((name) => {
+			const func = doc.createElementNS(SVG_NS, name)
+			func.setAttribute('type', 'linear')
+			func.setAttribute('slope', String(+(spread * gain).toFixed(4)))
+			func.setAttribute('intercept', String(+(0.5 * (1 - spread) * gain).toFixed(4)))
+			transfer.appendChild(func)
+		})
+		filter.appendChild(transfer)
+	}
+
+	addGeneratedDef(svg, filter)
+	return id
+}
+
+/** "hue +20°, brightness -10, tint #8A5A2B 40%" for listings such as the PDF */
+export function describeAdjustments(adjustments: TextureAdjustments): string {
+	const signed = (value: number) => (value > 0 ? `+${value}` : `-${Math.abs(value)}`)
+	const { hue, brightness, contrast, tint, tintStrength } = adjustments
+	return [
+		hue ? `hue ${signed(hue)}°` : null,
+		brightness ? `brightness ${signed(brightness)}` : null,
+		contrast ? `contrast ${signed(contrast)}` : null,
+		tint && tintStrength ? `tint ${tint.toUpperCase()} ${tintStrength}%` : null,
+	]
+		.filter(Boolean)
+		.join(', ')
+}
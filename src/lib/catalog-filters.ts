@@ -0,0 +1,246 @@
+import type { ContentSource, TextureFinish, TextureOption } from '../types'
+import { hexToRgb, parseHexColor, rgbToHsl } from './colors'
+import { getSourceLabel } from './content-sources'
+import { FINISHES, getFinishLabel } from './finishes'
+
+export const COLOR_FAMILIES: { value: string; label: string }[] = [
+	{ value: 'white', label: 'White' },
+	{ value: 'beige', label: 'Beige' },
+	{ value: 'grey', label: 'Grey' },
+	{ value: 'black', label: 'Black' },
+	{ value: 'brown', label: 'Brown' },
+	{ value: 'red', label: 'Red' },
+	{ value: 'orange', label: 'Orange' },
+	{ value: 'yellow', label: 'Yellow' },
+	{ value: 'green', label: 'Green' },
+	{ value: 'blue', label: 'Blue' },
+	{ value: 'purple', label: 'Purple' },
+	{ value: 'pink', label: 'Pink' },
+]
+
+/** Upper bound of each band, in dollars per unit; the last band has none */
+export const PRICE_BANDS: { value: string; label: string; below?: number }[] = [
+	{ value: 'under-25', label: 'Under $25', below: 25 },
+	{ value: '25-50', label: '$25–50', below: 50 },
+	{ value: '50-100', label: '$50–100', below: 100 },
+	{ value: '100-plus', label: '$100 and up' },
+]
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1)
+
+export function getColorFamilyLabel(family: string): string {
+	return COLOR_FAMILIES.find((f) => f.value === family)?.label ?? capitalize(family)
+}
+
+/** The option's `colorFamily`, else (for colours) the family of its hue and lightness */
+export function getColorFamily(option: TextureOption): string | undefined {
+	if (option.colorFamily) return option.colorFamily.toLowerCase()
+	const hex = option.type === 'color' ? parseHexColor(option.value) : null
+	if (!hex) return undefined
+	const { h, s, l } = rgbToHsl(hexToRgb(hex))
+	if (l >= 90 || (l >= 80 && s < 25)) return 'white'
+	if (l <= 20) return 'black'
+	if (s < 12) return 'grey'
+	if (h < 15 || h >= 345) return l < 35 ? 'brown' : 'red'
+	if (h < 45) return l < 50 ? 'brown' : s < 40 ? 'beige' : 'orange'
+	if (h < 70) return s < 45 && l > 60 ? 'beige' : 'yellow'
+	if (h < 170) return 'green'
+	if (h < 260) return 'blue'
+	if (h < 300) return 'purple'
+	return 'pink'
+}
+
+export function getPriceBand(option: TextureOption): string | undefined {
+	if (option.price === undefined) return undefined
+	return PRICE_BANDS.find((band) => band.below === undefined || option.price! < band.below)?.value
+}
+
+export type CatalogFacet = 'color' | 'material' | 'finish' | 'price' | 'tag'
+
+/**
+ * Filters in the order they are offered, with the values each option has for them and the
+ * order of the values (alphabetical without one)
+ */
+export const CATALOG_FACETS: {
+	id: CatalogFacet
+	label: string
+	values: (option: TextureOption) => string[]
+	valueLabel: (value: string) => string
+	order?: string[]
+}[] = [
+	{
+		id: 'color',
+		label: 'Colour',
+		values: (option) => [getColorFamily(option) ?? ''],
+		valueLabel: getColorFamilyLabel,
+		order: COLOR_FAMILIES.map((f) => f.value),
+	},
+	{
+		id: 'material',
+		label: 'Material',
+		values: (option) => [option.material ?? ''],
+		valueLabel: (value) => value,
+	},
+	{
+		id: 'finish',
+		label: 'Finish',
+		values: (option) => [option.finish ?? 'matte'],
+		valueLabel: (value) => getFinishLabel(value as TextureFinish),
+		order: FINISHES.map((f) => f.value),
+	},
+	{
+		id: 'price',
+		label: 'Price',
+		values: (option) => [getPriceBand(option) ?? ''],
+		valueLabel: (value) => PRICE_BANDS.find((band) => band.value === value)?.label ?? value,
+		order: PRICE_BANDS.map((band) => band.value),
+	},
+	{
+		id: 'tag',
+		label: 'Tags',
+		values: (option) => option.tags?.map((tag) => tag.toLowerCase()) ?? [],
+		valueLabel: (value) => value,
+	},
+]
+
+/** The search text and the values chosen per filter; an option must match the text and one value of each filter */
+export interface CatalogFilters {
+	query: string
+	facets: Partial<Record<CatalogFacet, string[]>>
+}
+
+export const NO_FILTERS: CatalogFilters = { query: '', facets: {} }
+
+export function countActiveFilters({ facets }: CatalogFilters): number {
+	return Object.values(facets).reduce((count, values) => count + (values?.length ?? 0), 0)
+}
+
+/**
+ * The values of each filter among `options` with the number of options having them, in
+ * the order the filter lists them. Filters with fewer than two values are left out,
+ * since they would not narrow anything down.
+ */
+export function getFacetCounts(options: TextureOption[]): { id: CatalogFacet; values: [string, number][] }[] {
+	return CATALOG_FACETS.map(({ id, values, order = [] }) => {
+		const counts = new Map<string, number>()
+		options.forEach((option) => {
+			new Set(values(option).filter(Boolean)).forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1))
+		})
+		const known = order.filter((value) => counts.has(value))
+		const other = [...counts.keys()].filter((value) => !order.includes(value)).sort()
+		return { id, values: [...known, ...other].map((value): [string, number] => [value, counts.get(value)!]) }
+	}).filter((facet) => facet.values.length > 1)
+}
+
+/** Whether the options differ in anything to filter by, or have a price or popularity to sort by */
+export function hasCatalogMetadata(options: TextureOption[]): boolean {
+	return (
+		getFacetCounts(options).length > 0 ||
+		options.some((option) => option.price !== undefined || option.popularity !== undefined)
+	)
+}
+
+function getSearchText(option: TextureOption, sources: ContentSource[]): string {
+	return [
+		option.label,
+		option.id,
+		option.brand,
+		option.collection,
+		option.sku,
+		option.material,
+		getColorFamily(option),
+		getSourceLabel(sources, option.source),
+		...(option.tags ?? []),
+	]
+		.filter(Boolean)
+		.join(' ')
+		.toLowerCase()
+}
+
+/** Options matching every word of the search and the chosen values of each filter */
+export function filterOptions(
+	options: TextureOption[],
+	{ query, facets }: CatalogFilters,
+	sources: ContentSource[],
+): TextureOption[] {
+	const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+	const chosen = CATALOG_FACETS.filter(({ id }) => facets[id]?.length)
+	return options.filter((option) => {
+		if (chosen.some(({ id, values }) => !values(option).some((value) => facets[id]!.includes(value)))) return false
+		if (words.length === 0) return true
+		const text = getSearchText(option, sources)
+		return words.every((word) => text.includes(word))
+	})
+}
+
+export type CatalogSort = 'catalog' | 'name' | 'price' | 'popularity'
+
+export const CATALOG_SORTS: { value: CatalogSort; label: string }[] = [
+	{ value: 'catalog', label: 'Featured' },
+	{ value: 'name', label: 'Name' },
+	{ value: 'price', label: 'Price' },
+	{ value: 'popularity', label: 'Popularity' },
+]
+
+/** Sorted copy; options without a price or popularity come last, in catalog order */
+export function sortOptions(options: TextureOption[], sort: CatalogSort): TextureOption[] {
+	const missingLast = (a: number | undefined, b: number | undefined) =>
+		a === undefined ? (b === undefined ? 0 : 1) : b === undefined ? -1 : a - b
+	switch (sort) {
+		case 'name':
+			return [...options].sort((a, b) => a.label.localeCompare(b.label))
+		case 'price':
+			return [...options].sort((a, b) => missingLast(a.price, b.price))
+		case 'popularity':
+			return [...options].sort((a, b) => missingLast(a.popularity && -a.popularity, b.popularity && -b.popularity))
+		default:
+			return options
+	}
+}
+
+export type CatalogGrouping = 'none' | 'material' | 'color' | 'collection' | 'source'
+
+export const CATALOG_GROUPINGS: { value: CatalogGrouping; label: string }[] = [
+	{ value: 'none', label: 'None' },
+	{ value: 'material', label: 'Material' },
+	{ value: 'color', label: 'Colour' },
+	{ value: 'collection', label: 'Collection' },
+	{ value: 'source', label: 'Supplier' },
+]
+
+function getGroupLabel(option: TextureOption, grouping: CatalogGrouping, sources: ContentSource[]): string | undefined {
+	switch (grouping) {
+		case 'material':
+			return option.material
+		case 'color': {
+			const family = getColorFamily(option)
+			return family && getColorFamilyLabel(family)
+		}
+		case 'collection':
+			return [option.brand, option.collection].filter(Boolean).join(' ') || undefined
+		case 'source':
+			return getSourceLabel(sources, option.source)
+		default:
+			return undefined
+	}
+}
+
+/**
+ * Sections of options sharing a material, colour family, collection or supplier, in the
+ * order they first appear; options without one are listed last under "Other".
+ */
+export function groupOptions(
+	options: TextureOption[],
+	grouping: CatalogGrouping,
+	sources: ContentSource[],
+): { label: string; options: TextureOption[] }[] {
+	const groups = new Map<string, TextureOption[]>()
+	const other: TextureOption[] = []
+	options.forEach((option) => {
+		const label = getGroupLabel(option, grouping, sources)
+		if (!label) other.push(option)
+		else groups.set(label, [...(groups.get(label) ?? []), option])
+	})
+	const sections = Array.from(groups, ([label, grouped]) => ({ label, options: grouped }))
+	return other.length > 0 ? [...sections, { label: 'Other', options: other }] : sections
+}
@@ -0,0 +1,83 @@
+import type { TextureCategory, TextureOption } from '../types'
+
+export interface Rgb {
+	r: number
+	g: number
+	b: number
+}
+
+/** Hue in degrees, saturation and lightness in % */
+export interface Hsl {
+	h: number
+	s: number
+	l: number
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+
+/**
+ * Whether a selection is an inline custom colour ("#1f3a5f") rather than a texture id.
+ * Custom colours are stored as lower-case six-digit hex.
+ */
+export function isCustomColor(value: string | undefined): value is string {
+	return !!value && HEX_COLOR.test(value)
+}
+
+/** "#ABC", "abc" or "#aabbcc" → "#aabbcc"; null if not a hex colour */
+export function parseHexColor(value: string): string | null {
+	const hex = value.trim().replace(/^#/, '')
+	const full = hex.length === 3 ? hex.split('').map((c) => c + c).join('') : hex
+	return /^[0-9a-f]{6}$/i.test(full) ? `#${full.toLowerCase()}` : null
+}
+
+export function hexToRgb(hex: string): Rgb {
+	const value = parseHexColor(hex) ?? '#000000'
+	return {
+		r: parseInt(value.slice(1, 3), 16),
+		g: parseInt(value.slice(3, 5), 16),
+		b: parseInt(value.slice(5, 7), 16),
+	}
+}
+
+export function rgbToHex({ r, g, b }: Rgb): string {
+	const channel = (value: number) => Math.round(Math.min(255, Math.max(0, value))).toString(16).padStart(2, '0')
+	return `#${channel(r)}${channel(g)}${channel(b)}`
+}
+
+export function rgbToHsl({ r, g, b }: Rgb): Hsl {
+	const [rn, gn, bn] = [r / 255, g / 255, b / 255]
+	const max = Math.max(rn, gn, bn)
+	const min = Math.min(rn, gn, bn)
+	const l = (max + min) / 2
+	const d = max - min
+	if (d === 0) return { h: 0, s: 0, l: Math.round(l * 100) }
+
+	const s = d / (1 - Math.abs(2 * l - 1))
+	let h = max === rn ? ((gn - bn) / d) % 6 : max === gn ? (bn - rn) / d + 2 : (rn - gn) / d + 4
+	h = (h * 60 + 360) % 360
+	return { h: Math.round(h), s: Math.round(s * 100), l: Math.round(l * 100) }
+}
+
+export function hslToRgb({ h, s, l }: Hsl): Rgb {
+	const sn = Math.min(100, Math.max(0, s)) / 100
+	const ln = Math.min(100, Math.max(0, l)) / 100
+	const c = (1 - Math.abs(2 * ln - 1)) * sn
+	const hp = (((h % 360) + 360) % 360) / 60
+	const x = c * (1 - Math.abs((hp % 2) - 1))
+	const [r1, g1, b1] =
+		hp < 1 ? [c, x, 0] : hp < 2 ? [x, c, 0] : hp < 3 ? [0, c, x] : hp < 4 ? [0, x, c] : hp < 5 ? [x, 0, c] : [c, 0, x]
+	const m = ln - c / 2
+	return { r: (r1 + m) * 255, g: (g1 + m) * 255, b: (b1 + m) * 255 }
+}
+
+/** The option a custom colour is drawn and listed as, like a colour entry of textures.json */
+export function getCustomColorOption(category: TextureCategory, color: string): TextureOption {
+	return {
+		id: color,
+		label: `Custom ${color.toUpperCase()}`,
+		category,
+		type: 'color',
+		value: color,
+		order: 0,
+	}
+}
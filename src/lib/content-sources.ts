@@ -0,0 +1,51 @@
+import type { ContentSource, TextureOption } from '../types'
+
+/** The site's own catalog; without content/sources.json it is the only source */
+export const SITE_SOURCE: ContentSource = { id: 'site', label: '', url: 'content/textures.json', namespace: '' }
+
+const NAMESPACE_SEPARATOR = ':'
+
+export function normalizeSources(data: unknown): ContentSource[] {
+	if (Array.isArray(data)) return data as ContentSource[]
+	if (data && typeof data === 'object' && 'sources' in data) {
+		return (data as { sources: ContentSource[] }).sources
+	}
+	return []
+}
+
+/** Where a source's catalog is read from: its stand-in during development, if it has one */
+export function getSourceUrl(source: ContentSource): string {
+	return (import.meta.env?.DEV && source.standIn) || source.url
+}
+
+/** "acme:oak" for the catalog entry "oak" of the source with namespace "acme" */
+export function getNamespacedId(source: ContentSource, id: string): string {
+	const namespace = source.namespace ?? (source.id === SITE_SOURCE.id ? '' : source.id)
+	return namespace ? `${namespace}${NAMESPACE_SEPARATOR}${id}` : id
+}
+
+/**
+ * One catalog from several, in source order (each catalog in its own order). Ids are
+ * namespaced per source; an id already taken is kept unless the later source overrides,
+ * in which case its entry takes the earlier one's place.
+ */
+export function mergeSources(catalogs: { source: ContentSource; textures: TextureOption[] }[]): TextureOption[] {
+	const merged = new Map<string, TextureOption>()
+	catalogs.forEach(({ source, textures }) => {
+		textures.forEach((texture) => {
+			const id = getNamespacedId(source, texture.id)
+			const existing = merged.get(id)
+			if (existing && !source.override) {
+				console.warn(`Content source "${source.id}": "${id}" is already taken by "${existing.source}"; skipped`)
+				return
+			}
+			merged.set(id, { ...texture, id, source: source.id })
+		})
+	})
+	return Array.from(merged.values())
+}
+
+/** Supplier name of an option's source; undefined for the site's own options */
+export function getSourceLabel(sources: ContentSource[], id: string | undefined): string | undefined {
+	return (id && sources.find((source) => source.id === id)?.label) || undefined
+}
@@ -0,0 +1,156 @@
+import type { ContentFile, ContentSet } from '../types'
+import { getGroupSurfaceId, getSceneMasks, getSurfaceIds, isPhotoScene, splitSurfaceId } from './content'
+import { isCustomColor, parseHexColor } from './colors'
+import { PRICE_UNITS } from './product-details'
+
+const FILE_ORDER: ContentFile[] = ['categories', 'textures', 'scenes', 'themes']
+
+export interface ContentIssue {
+	/** Errors break something visibly (a missing swatch or surface); warnings are probably mistakes */
+	severity: 'error' | 'warning'
+	/** The file it is in; none when the content could not be checked at all */
+	file?: ContentFile
+	/** Id of the offending entry, or its position when it has none */
+	entry: string
+	message: string
+}
+
+export interface ValidationOptions {
+	/**
+	 * Whether an asset path (as written in the content, e.g. "textures/oak.jpg") resolves;
+	 * asset paths are not checked without it. Data and absolute URLs are never checked.
+	 */
+	assetExists?: (path: string) => boolean | Promise<boolean>
+}
+
+/** `themes.json › classic-wood: …`, for logs and the CLI */
+export function formatContentIssue({ file, entry, message }: ContentIssue): string {
+	return `${file ? `${file}.json › ` : ''}${entry}: ${message}`
+}
+
+// Ids used by more than one entry, and entries without one
+function checkIds(
+	file: ContentFile,
+	entries: { id?: string }[],
+	report: (file: ContentFile, entry: string, message: string) => void,
+) {
+	const seen = new Set<string>()
+	entries.forEach((entry, index) => {
+		if (!entry.id) report(file, `#${index + 1}`, 'has no id')
+		else if (seen.has(entry.id)) report(file, entry.id, 'id is used by more than one entry')
+		else seen.add(entry.id)
+	})
+}
+
+/**
+ * Check the content's cross-references: that ids are unique, that themes, category
+ * defaults and scene mappings name textures and categories that exist (and match), and,
+ * with `assetExists`, that texture images, scene artwork and masks resolve.
+ */
+export async function validateContent(
+	{ categories, textures, scenes, themes }: ContentSet,
+	{ assetExists }: ValidationOptions = {},
+): Promise<ContentIssue[]> {
+	const issues: ContentIssue[] = []
+	const error = (file: ContentFile, entry: string, message: string) =>
+		issues.push({ severity: 'error', file, entry, message })
+	const warning = (file: ContentFile, entry: string, message: string) =>
+		issues.push({ severity: 'warning', file, entry, message })
+
+	const categoryIds = new Set(categories.map((c) => c.id))
+	const surfaceIds = new Set(getSurfaceIds(categories))
+	const textureMap = new Map(textures.map((t) => [t.id, t]))
+
+	// Each path is looked up once, however many entries use it
+	const assetChecks = new Map<string, Promise<boolean>>()
+	const pending: Promise<void>[] = []
+	const checkAsset = (file: ContentFile, entry: string, what: string, path: string) => {
+		if (!assetExists || /^(data:|blob:|https?:)/.test(path)) return
+		if (!assetChecks.has(path)) assetChecks.set(path, Promise.resolve(assetExists(path)).catch(() => false))
+		pending.push(
+			assetChecks.get(path)!.then((exists) => {
+				if (!exists) error(file, entry, `${what} "${path}" does not exist`)
+			}),
+		)
+	}
+
+	checkIds('categories', categories, error)
+	categories.forEach((category) => {
+		checkIds('categories', category.groups ?? [], (file, entry, message) =>
+			error(file, category.id, `group ${entry} ${message}`),
+		)
+		if (category.defaultTextureId) {
+			const texture = textureMap.get(category.defaultTextureId)
+			if (!texture) error('categories', category.id, `default texture "${category.defaultTextureId}" does not exist`)
+			else if (texture.category !== category.id) {
+				error('categories', category.id, `default texture "${texture.id}" is a ${texture.category} texture`)
+			}
+		}
+	})
+
+	checkIds('textures', textures, error)
+	textures.forEach((texture, index) => {
+		const entry = texture.id || `#${index + 1}`
+		if (!categoryIds.has(texture.category)) error('textures', entry, `category "${texture.category}" does not exist`)
+		if (texture.type === 'color') {
+			if (!parseHexColor(texture.value ?? '')) error('textures', entry, `colour "${texture.value}" is not a hex colour`)
+		} else if (!texture.value) {
+			error('textures', entry, 'has no image path')
+		} else {
+			checkAsset('textures', entry, 'image', texture.value)
+		}
+		if (texture.price !== undefined && texture.price < 0) error('textures', entry, `price ${texture.price} is negative`)
+		if (texture.unit && !PRICE_UNITS.some((u) => u.value === texture.unit)) {
+			warning('textures', entry, `price unit "${texture.unit}" is not one of ${PRICE_UNITS.map((u) => u.value).join(', ')}`)
+		}
+	})
+
+	checkIds('scenes', scenes, error)
+	const defaults = scenes.filter((scene) => scene.isDefault)
+	if (defaults.length > 1) {
+		defaults.slice(1).forEach((scene) => warning('scenes', scene.id, `is a default scene as well as "${defaults[0].id}"`))
+	}
+	scenes.forEach((scene, index) => {
+		const entry = scene.id || `#${index + 1}`
+		if (!scene.baseImageUrl) error('scenes', entry, 'has no base image')
+		else checkAsset('scenes', entry, isPhotoScene(scene) ? 'photo' : 'artwork', scene.baseImageUrl)
+		Object.entries(getSceneMasks(scene)).forEach(([category, url]) => {
+			if (!categoryIds.has(category)) warning('scenes', entry, `has a mask for unknown category "${category}"`)
+			checkAsset('scenes', entry, `${category} mask`, url)
+		})
+		Object.entries(scene.surfaces ?? {}).forEach(([category, surface]) => {
+			if (!categoryIds.has(category)) {
+				warning('scenes', entry, `maps surfaces of unknown category "${category}"`)
+				return
+			}
+			surface?.groups?.forEach((group) => {
+				if (!surfaceIds.has(getGroupSurfaceId(category, group.id))) {
+					warning('scenes', entry, `maps unknown group "${group.id}" of ${category}`)
+				}
+			})
+		})
+	})
+
+	checkIds('themes', themes, error)
+	themes.forEach((theme, index) => {
+		const entry = theme.id || `#${index + 1}`
+		Object.entries(theme.selections).forEach(([surface, value]) => {
+			if (!surfaceIds.has(surface)) {
+				error('themes', entry, `sets unknown category "${surface}"`)
+				return
+			}
+			if (isCustomColor(value)) return
+			const texture = textureMap.get(value)
+			const category = splitSurfaceId(surface)[0]
+			if (!texture) error('themes', entry, `${surface} texture "${value}" does not exist`)
+			else if (texture.category !== category) {
+				error('themes', entry, `${surface} texture "${value}" is a ${texture.category} texture`)
+			}
+		})
+	})
+
+	// Missing assets turn up last; list them with their file's other issues
+	await Promise.all(pending)
+	const order = ({ file }: ContentIssue) => (file ? FILE_ORDER.indexOf(file) : -1)
+	return issues.sort((a, b) => order(a) - order(b))
+}
@@ -1,75 +1,328 @@
-import type { Scene, TextureOption, Theme } from '../types'
+import type {
+	ContentFile,
+	ContentSet,
+	ContentSource,
+	KitchenSelections,
+	Scene,
+	SceneSurface,
+	SceneSurfaces,
+	SurfaceCategory,
+	TextureCategory,
+	TextureOption,
+	Theme,
+} from '../types'
 import texturesBundled from '../data/textures.json'
 import scenesBundled from '../data/scenes.json'
 import themesBundled from '../data/themes.json'
+import categoriesBundled from '../data/categories.json'
+import { getCustomColorOption, isCustomColor, parseHexColor } from './colors'
+import { getSourceUrl, mergeSources, normalizeSources, SITE_SOURCE } from './content-sources'
+import type { ContentIssue } from './content-validation'
+import { hashKey } from './svg-defs'
 
-const baseUrl = import.meta.env.BASE_URL
+// Outside Vite (e.g. rendering under Node) assets resolve from the root
+const baseUrl = import.meta.env?.BASE_URL ?? '/'
 
 export function getAssetUrl(path: string): string {
-	if (path.startsWith('http')) return path
+	if (path.startsWith('http') || path.startsWith('data:') || path.startsWith('blob:')) return path
 	return path.startsWith('/') ? `${baseUrl}${path.slice(1)}` : `${baseUrl}${path}`
 }
 
+// Product fields as hand-written catalogs may have them: the price as text, tags comma-separated
+type TextureEntry = Omit<TextureOption, 'price' | 'tags'> & { price?: number | string; tags?: string[] | string }
+
+function normalizeTexture({ price, tags, ...texture }: TextureEntry): TextureOption {
+	const amount = typeof price === 'string' ? parseFloat(price) : price
+	const tagList = typeof tags === 'string' ? tags.split(',') : tags
+	return {
+		...texture,
+		...(amount !== undefined && Number.isFinite(amount) ? { price: amount } : {}),
+		...(tagList ? { tags: tagList.map((tag) => tag.trim()).filter(Boolean) } : {}),
+	}
+}
+
 function normalizeTextures(data: unknown): TextureOption[] {
-	if (Array.isArray(data)) return data as TextureOption[]
-	if (data && typeof data === 'object' && 'textures' in data) {
-		return (data as { textures: TextureOption[] }).textures
+	let entries: TextureEntry[] = []
+	if (Array.isArray(data)) entries = data as TextureEntry[]
+	else if (data && typeof data === 'object' && 'textures' in data) {
+		entries = (data as { textures: TextureEntry[] }).textures
+	}
+	return entries.map(normalizeTexture)
+}
+
+// Scenes list their masks and surface mappings as { category, ... } entries (editable in the
+// CMS for any category); older scenes have them keyed by category instead
+type SceneEntry = Omit<Scene, 'masks' | 'surfaces'> & {
+	masks?: Scene['masks'] | { category: TextureCategory; url?: string }[]
+	surfaces?: SceneSurfaces | (SceneSurface & { category: TextureCategory })[]
+}
+
+function normalizeScene({ masks, surfaces, ...scene }: SceneEntry): Scene {
+	return {
+		...scene,
+		...(masks && {
+			masks: Array.isArray(masks)
+				? Object.fromEntries(masks.filter(({ category, url }) => category && url).map(({ category, url }) => [category, url]))
+				: masks,
+		}),
+		...(surfaces && {
+			surfaces: Array.isArray(surfaces)
+				? Object.fromEntries(surfaces.filter(({ category }) => category).map(({ category, ...surface }) => [category, surface]))
+				: surfaces,
+		}),
 	}
-	return []
 }
 
 function normalizeScenes(data: unknown): Scene[] {
-	if (Array.isArray(data)) return data as Scene[]
-	if (data && typeof data === 'object' && 'scenes' in data) {
-		return (data as { scenes: Scene[] }).scenes
+	let entries: SceneEntry[] = []
+	if (Array.isArray(data)) entries = data as SceneEntry[]
+	else if (data && typeof data === 'object' && 'scenes' in data) {
+		entries = (data as { scenes: SceneEntry[] }).scenes
 	}
-	return []
+	return entries.map(normalizeScene)
+}
+
+/** A scene as scenes.json has it: masks and surface mappings as lists of `{ category, ... }` entries */
+export function toSceneEntry({ masks, surfaces, ...scene }: Scene): SceneEntry {
+	return {
+		...scene,
+		...(masks && { masks: Object.entries(masks).map(([category, url]) => ({ category, url })) }),
+		...(surfaces && { surfaces: Object.entries(surfaces).map(([category, surface]) => ({ category, ...surface })) }),
+	}
+}
+
+// Themes list their textures as { category, texture } pairs (editable in the CMS), or a
+// custom colour instead of the texture; older themes have one field per category instead
+type ThemeEntry = Omit<Theme, 'selections'> & {
+	selections?: { category: TextureCategory; group?: string; texture?: string; color?: string }[]
+	[category: string]: unknown
+}
+
+function normalizeTheme({ id, name, description, order, selections, ...legacy }: ThemeEntry): Theme {
+	const result: KitchenSelections = {}
+	Object.entries(legacy).forEach(([category, texture]) => {
+		if (typeof texture === 'string') result[category] = texture
+	})
+	selections?.forEach(({ category, group, texture, color }) => {
+		const value = (color && parseHexColor(color)) || texture
+		if (category && value) result[group ? getGroupSurfaceId(category, group) : category] = value
+	})
+	return { id, name, description, order, selections: result }
 }
 
 function normalizeThemes(data: unknown): Theme[] {
-	if (Array.isArray(data)) return data as Theme[]
-	if (data && typeof data === 'object' && 'themes' in data) {
-		return (data as { themes: Theme[] }).themes
+	let entries: ThemeEntry[] = []
+	if (Array.isArray(data)) entries = data as ThemeEntry[]
+	else if (data && typeof data === 'object' && 'themes' in data) {
+		entries = (data as { themes: ThemeEntry[] }).themes
+	}
+	return entries.map(normalizeTheme)
+}
+
+function normalizeCategories(data: unknown): SurfaceCategory[] {
+	if (Array.isArray(data)) return data as SurfaceCategory[]
+	if (data && typeof data === 'object' && 'categories' in data) {
+		return (data as { categories: SurfaceCategory[] }).categories
 	}
 	return []
 }
 
-let cachedTextures: TextureOption[] | null = null
-let cachedScenes: Scene[] | null = null
-let cachedThemes: Theme[] | null = null
+/** Content from its files' JSON, as saved by the CMS (e.g. `{ "themes": [...] }`) or as bare lists */
+export function parseContent(files: Partial<Record<ContentFile, unknown>>): ContentSet {
+	return {
+		categories: normalizeCategories(files.categories).sort((a, b) => a.order - b.order),
+		textures: normalizeTextures(files.textures).sort((a, b) => a.order - b.order),
+		scenes: normalizeScenes(files.scenes).sort((a, b) => a.order - b.order),
+		themes: normalizeThemes(files.themes).sort((a, b) => a.order - b.order),
+	}
+}
+
+/** The content in use: all files from the same load, swapped together when it is refreshed */
+export interface ContentSnapshot extends ContentSet {
+	/** Changes whenever a file does (from the files' ETags, or their text); "bundled" for the bundled copy */
+	version: string
+	/** Whether the site's content has loaded; the bundled copy is shown until then */
+	loaded: boolean
+	/** The enabled sources, in order, that the textures were merged from */
+	sources: ContentSource[]
+}
+
+// The textures come from the content sources instead (see content-sources.ts)
+const SITE_FILES: ContentFile[] = ['categories', 'scenes', 'themes']
+const BUNDLED_FILES: Record<ContentFile, unknown> = {
+	categories: categoriesBundled,
+	textures: texturesBundled,
+	scenes: scenesBundled,
+	themes: themesBundled,
+}
+
+let bundledContent: ContentSnapshot | null = null
+let currentContent: ContentSnapshot | null = null
+let loadingContent: Promise<ContentSnapshot> | null = null
+const contentListeners = new Set<() => void>()
+
+function getBundledContent(): ContentSnapshot {
+	return (bundledContent ??= {
+		...parseContent(BUNDLED_FILES),
+		version: 'bundled',
+		loaded: false,
+		sources: [SITE_SOURCE],
+	})
+}
+
+type FetchedFile = { data: unknown; tag: string } | null
+
+// A JSON file with its version; null when the site has none (yet), so the bundled copy
+// stands in. Throws when it could not be fetched.
+async function fetchContentFile(path: string, revalidate: boolean): Promise<FetchedFile> {
+	const res = await fetch(getAssetUrl(path), revalidate ? { cache: 'no-cache' } : undefined)
+	if (res.status === 404) return null
+	if (!res.ok) throw new Error(`${path}: ${res.status}`)
+	const text = await res.text()
+	return { data: JSON.parse(text), tag: res.headers.get('ETag') ?? hashKey(text) }
+}
 
-async function fetchJson<T>(url: string): Promise<T | null> {
+// The last catalog loaded from each supplier, which stands in while the supplier is down
+const lastCatalogs = new Map<string, NonNullable<FetchedFile>>()
+
+// The catalog of every enabled source. A supplier's catalog that fails to load keeps its
+// last good copy (or is left out until it loads), so the site's own files still apply.
+async function fetchCatalogs(
+	sources: ContentSource[],
+	revalidate: boolean,
+): Promise<{ source: ContentSource; file: FetchedFile }[]> {
+	const catalogs = await Promise.all(
+		sources.map(async (source) => {
+			const url = getSourceUrl(source)
+			if (url === SITE_SOURCE.url) return { source, file: await fetchContentFile(url, revalidate) }
+			try {
+				const file = await fetchContentFile(url, revalidate)
+				if (!file) throw new Error(`${url}: 404`)
+				lastCatalogs.set(source.id, file)
+				return { source, file }
+			} catch (error) {
+				const last = lastCatalogs.get(source.id)
+				console.warn(`Content source "${source.id}" could not be loaded${last ? ', keeping its last catalog' : ''}:`, error)
+				return last ? { source, file: last } : null
+			}
+		}),
+	)
+	return catalogs.filter((catalog) => catalog !== null)
+}
+
+// All files or none: the bundled copy stands in only when the site has none of its files
+// (yet), and a load with some of them missing fails instead of mixing the two
+async function fetchContent(revalidate: boolean): Promise<ContentSnapshot> {
+	const sourcesFile = await fetchContentFile('content/sources.json', revalidate)
+	const sources = sourcesFile
+		? normalizeSources(sourcesFile.data).filter((source) => source.enabled !== false)
+		: [SITE_SOURCE]
+	const [fetched, catalogs] = await Promise.all([
+		Promise.all(SITE_FILES.map((file) => fetchContentFile(`content/${file}.json`, revalidate))),
+		fetchCatalogs(sources, revalidate),
+	])
+	const siteFiles: [string, FetchedFile][] = [
+		...SITE_FILES.map((file, i): [string, FetchedFile] => [`content/${file}.json`, fetched[i]]),
+		...catalogs
+			.filter(({ source }) => getSourceUrl(source) === SITE_SOURCE.url)
+			.map(({ file }): [string, FetchedFile] => [SITE_SOURCE.url, file]),
+	]
+	const missing = siteFiles.filter(([, file]) => file === null).map(([path]) => path)
+	if (missing.length > 0 && missing.length < siteFiles.length) throw new Error(`${missing.join(', ')}: 404`)
+
+	const files = Object.fromEntries(SITE_FILES.map((file, i) => [file, fetched[i]?.data ?? BUNDLED_FILES[file]]))
+	const textures = mergeSources(
+		catalogs.map(({ source, file }) => ({
+			source,
+			textures: parseContent({ textures: file?.data ?? BUNDLED_FILES.textures }).textures,
+		})),
+	)
+	const tags = [sourcesFile, ...fetched, ...catalogs.map(({ file }) => file)].map((f) => f?.tag ?? 'bundled')
+	return {
+		...parseContent(files),
+		textures,
+		version: hashKey(tags.join('|')),
+		loaded: true,
+		sources: catalogs.map(({ source }) => source),
+	}
+}
+
+function setContent(content: ContentSnapshot) {
+	currentContent = content
+	contentListeners.forEach((listener) => listener())
+}
+
+/** The content in use; the same object until it changes, so it can be compared by identity */
+export function getContent(): ContentSnapshot {
+	return currentContent ?? getBundledContent()
+}
+
+/** Call `listener` whenever the content changes; returns the unsubscribe function */
+export function subscribeContent(listener: () => void): () => void {
+	contentListeners.add(listener)
+	return () => {
+		contentListeners.delete(listener)
+	}
+}
+
+/** Load the site's content once; when it cannot be loaded the bundled copy is used throughout */
+export function loadContent(): Promise<ContentSnapshot> {
+	if (currentContent) return Promise.resolve(currentContent)
+	return (loadingContent ??= fetchContent(false)
+		.catch((error) => {
+			console.warn('Failed to load content, using the bundled copy:', error)
+			return { ...getBundledContent(), loaded: true }
+		})
+		.then((content) => {
+			setContent(content)
+			return content
+		}))
+}
+
+/**
+ * Fetch the content again (revalidating with the server) and switch to it if any file has
+ * changed. Resolves to whether it did; content that fails to load keeps the current one.
+ */
+export async function refreshContent(): Promise<boolean> {
+	const previous = await loadContent()
 	try {
-		const res = await fetch(url)
-		if (!res.ok) return null
-		return (await res.json()) as T
-	} catch {
-		return null
+		const content = await fetchContent(true)
+		if (content.version === previous.version) return false
+		setContent(content)
+		return true
+	} catch (error) {
+		console.warn('Failed to refresh content:', error)
+		return false
+	}
+}
+
+/**
+ * Load the content, then look for changes every `interval` ms and whenever the page is shown
+ * again, so CMS edits reach open pages. Returns the function that stops watching.
+ */
+export function watchContent(interval = 5 * 60 * 1000): () => void {
+	loadContent()
+	const refresh = () => {
+		if (document.visibilityState === 'visible') refreshContent()
+	}
+	const timer = window.setInterval(refresh, interval)
+	document.addEventListener('visibilitychange', refresh)
+	return () => {
+		window.clearInterval(timer)
+		document.removeEventListener('visibilitychange', refresh)
 	}
 }
 
 export async function loadTextures(): Promise<TextureOption[]> {
-	if (cachedTextures) return cachedTextures
-	const url = getAssetUrl('content/textures.json')
-	const data = await fetchJson<unknown>(url)
-	const list = data ? normalizeTextures(data) : normalizeTextures(texturesBundled)
-	cachedTextures = list.sort((a, b) => a.order - b.order)
-	return cachedTextures
+	return (await loadContent()).textures
 }
 
 export async function loadScenes(): Promise<Scene[]> {
-	if (cachedScenes) return cachedScenes
-	const url = getAssetUrl('content/scenes.json')
-	const data = await fetchJson<unknown>(url)
-	const list = data ? normalizeScenes(data) : normalizeScenes(scenesBundled)
-	cachedScenes = list.sort((a, b) => a.order - b.order)
-	return cachedScenes
+	return (await loadContent()).scenes
 }
 
 export function getTextures(): TextureOption[] {
-	if (cachedTextures) return cachedTextures
-	const list = normalizeTextures(texturesBundled)
-	return list.sort((a, b) => a.order - b.order)
+	return getContent().textures
 }
 
 export function getTexturesByCategory(
@@ -84,8 +337,29 @@ export function getTexturesByCategory(
 }
 
 export function getScenes(): Scene[] {
-	if (cachedScenes) return cachedScenes
-	return normalizeScenes(scenesBundled).sort((a, b) => a.order - b.order)
+	return getContent().scenes
+}
+
+/**
+ * Photo scenes use a JPG/PNG base image with raster masks instead of an SVG
+ * whose surface elements can be recolored directly.
+ */
+export function isPhotoScene(scene: Scene): boolean {
+	const url = scene.baseImageUrl.split(/[?#]/)[0].toLowerCase()
+	if (url.startsWith('data:')) return !url.startsWith('data:image/svg')
+	return !url.endsWith('.svg')
+}
+
+export function getSceneMasks(scene: Scene): Record<TextureCategory, string> {
+	const masks: Record<TextureCategory, string> = {}
+	if (scene.maskFloorUrl) masks.floor = scene.maskFloorUrl
+	if (scene.maskCountertopUrl) masks.countertop = scene.maskCountertopUrl
+	if (scene.maskBacksplashUrl) masks.backsplash = scene.maskBacksplashUrl
+	if (scene.maskCabinetUrl) masks.cabinet = scene.maskCabinetUrl
+	Object.entries(scene.masks ?? {}).forEach(([category, url]) => {
+		if (url) masks[category] = url
+	})
+	return masks
 }
 
 export function getDefaultScene(): Scene | undefined {
@@ -94,25 +368,152 @@ export function getDefaultScene(): Scene | undefined {
 }
 
 export async function loadThemes(): Promise<Theme[]> {
-	if (cachedThemes) return cachedThemes
-	const url = getAssetUrl('content/themes.json')
-	const data = await fetchJson<unknown>(url)
-	const list = data ? normalizeThemes(data) : normalizeThemes(themesBundled)
-	cachedThemes = list.sort((a, b) => a.order - b.order)
-	return cachedThemes
+	return (await loadContent()).themes
 }
 
 export function getThemes(): Theme[] {
-	if (cachedThemes) return cachedThemes
-	const list = normalizeThemes(themesBundled)
-	return list.sort((a, b) => a.order - b.order)
-}
-
-export function clearThemeCache(): void {
-	cachedThemes = null
+	return getContent().themes
 }
 
 export function getThemeById(id: string): Theme | undefined {
 	const themes = getThemes()
 	return themes.find((t) => t.id === id)
 }
+
+export async function loadCategories(): Promise<SurfaceCategory[]> {
+	return (await loadContent()).categories
+}
+
+export function getCategories(): SurfaceCategory[] {
+	return getContent().categories
+}
+
+/**
+ * The site's files exactly as published, for validation: files that cannot be fetched or
+ * parsed are reported (by path) and left empty instead of replaced by the bundled copy.
+ */
+export async function fetchPublishedContent(): Promise<{ content: ContentSet; issues: ContentIssue[] }> {
+	const issues: ContentIssue[] = []
+	const fetchFile = async (file: ContentFile, path: string, optional = false): Promise<unknown> => {
+		try {
+			const fetched = await fetchContentFile(path, true)
+			if (fetched) return fetched.data
+			if (!optional) issues.push({ severity: 'error', file, entry: path, message: 'was not found' })
+		} catch (error) {
+			const reason = error instanceof Error ? error.message : String(error)
+			const message = error instanceof SyntaxError ? `is not valid JSON (${reason})` : `could not be fetched (${reason})`
+			issues.push({ severity: 'error', file, entry: path, message })
+		}
+		return undefined
+	}
+
+	const sourcesData = await fetchFile('textures', 'content/sources.json', true)
+	const sources = sourcesData
+		? normalizeSources(sourcesData).filter((source) => source.enabled !== false)
+		: [SITE_SOURCE]
+	const [fetched, catalogs] = await Promise.all([
+		Promise.all(SITE_FILES.map((file) => fetchFile(file, `content/${file}.json`))),
+		Promise.all(sources.map(async (source) => ({ source, data: await fetchFile('textures', getSourceUrl(source)) }))),
+	])
+	const textures = mergeSources(
+		catalogs.map(({ source, data }) => ({ source, textures: parseContent({ textures: data }).textures })),
+	)
+	const files = Object.fromEntries(SITE_FILES.map((file, i) => [file, fetched[i]]))
+	return { content: { ...parseContent(files), textures }, issues }
+}
+
+/**
+ * Problems in the site's content as published (see content-validation.ts), asset paths
+ * checked against the site. Files that cannot be loaded are errors themselves; the bundled
+ * copy does not stand in for them. The validator is only downloaded when this is called.
+ */
+export async function loadContentIssues(): Promise<ContentIssue[]> {
+	const { content, issues } = await fetchPublishedContent()
+	const { validateContent } = await import('./content-validation')
+	const contentIssues = await validateContent(content, {
+		assetExists: async (path) => {
+			try {
+				const res = await fetch(getAssetUrl(path), { method: 'HEAD' })
+				// The dev server answers unknown paths with the app's page
+				return res.ok && !res.headers.get('Content-Type')?.startsWith('text/html')
+			} catch {
+				return false
+			}
+		},
+	})
+	return [...issues, ...contentIssues]
+}
+
+/** The issue shown when the content could not be checked at all, e.g. the validator failed to download */
+export function getContentCheckIssue(error: unknown): ContentIssue {
+	const reason = error instanceof Error ? error.message : String(error)
+	return { severity: 'error', entry: 'Content', message: `could not be checked (${reason})` }
+}
+
+/** Selection key of a category group, e.g. "cabinet.upper" */
+export function getGroupSurfaceId(category: TextureCategory, group: string): TextureCategory {
+	return `${category}.${group}`
+}
+
+/** Category and group of a selection key: "cabinet.upper" → ["cabinet", "upper"] */
+export function splitSurfaceId(id: TextureCategory): [TextureCategory, string | undefined] {
+	const dot = id.indexOf('.')
+	return dot < 0 ? [id, undefined] : [id.slice(0, dot), id.slice(dot + 1)]
+}
+
+/** Every selectable surface in sidebar order: each category followed by its groups */
+export function getSurfaceIds(categories: SurfaceCategory[]): TextureCategory[] {
+	return categories.flatMap((category) => [
+		category.id,
+		...(category.groups ?? []).map((group) => getGroupSurfaceId(category.id, group.id)),
+	])
+}
+
+/** "Cabinet", or "Cabinet – Upper" for a group */
+export function getSurfaceLabel(categories: SurfaceCategory[], id: TextureCategory): string {
+	const [categoryId, groupId] = splitSurfaceId(id)
+	const category = categories.find((c) => c.id === categoryId)
+	if (!category) return id
+	if (!groupId) return category.label
+	const group = category.groups?.find((g) => g.id === groupId)
+	return `${category.label} – ${group?.label ?? groupId}`
+}
+
+/** The option a selection stands for: a texture id, or an inline custom colour */
+export function resolveSelectionOption(
+	textures: Map<string, TextureOption>,
+	surface: TextureCategory,
+	value: string | undefined,
+): TextureOption | undefined {
+	if (isCustomColor(value)) return getCustomColorOption(splitSurfaceId(surface)[0], value)
+	return value ? textures.get(value) : undefined
+}
+
+/** The option shown on every surface; groups without a finish of their own show their category's */
+export function resolveSelectionOptions(
+	categories: SurfaceCategory[],
+	selections: KitchenSelections,
+	textures: Map<string, TextureOption>,
+): Record<TextureCategory, TextureOption | undefined> {
+	return Object.fromEntries(
+		getSurfaceIds(categories).map((id) => [
+			id,
+			resolveSelectionOption(textures, id, selections[id] || selections[splitSurfaceId(id)[0]]),
+		]),
+	)
+}
+
+/**
+ * Default texture per category: the category's `defaultTextureId`, or its first texture.
+ * Groups start out following their category.
+ */
+export function getDefaultSelections(): KitchenSelections {
+	const selections: KitchenSelections = {}
+	getCategories().forEach((category) => {
+		selections[category.id] = category.defaultTextureId ?? getTexturesByCategory(category.id)[0]?.id ?? ''
+		category.groups?.forEach((group) => {
+			selections[getGroupSurfaceId(category.id, group.id)] = ''
+		})
+	})
+	return selections
+}
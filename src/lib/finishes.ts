@@ -0,0 +1,103 @@
+import type { SurfaceSettings, TextureFinish, TextureOption } from '../types'
+import { addGeneratedDef, findDef } from './svg-defs'
+import { cloneShape, SHADING_CLASS } from './shading'
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+export const FINISH_CLASS = 'surface-finish'
+
+export const FINISHES: { value: TextureFinish; label: string }[] = [
+	{ value: 'matte', label: 'Matte' },
+	{ value: 'satin', label: 'Satin' },
+	{ value: 'gloss', label: 'Gloss' },
+]
+
+export function getFinishLabel(finish: TextureFinish): string {
+	return FINISHES.find((f) => f.value === finish)?.label ?? finish
+}
+
+/** The surface's finish override, else the option's own; undefined when neither states one (drawn matte) */
+export function resolveFinish(
+	option: TextureOption | undefined,
+	settings: SurfaceSettings | undefined,
+): TextureFinish | undefined {
+	return settings?.finish ?? option?.finish
+}
+
+/** "Pure White (Gloss)", or just the label for options without a finish */
+export function getOptionLabel(option: TextureOption): string {
+	return option.finish ? `${option.label} (${getFinishLabel(option.finish)})` : option.label
+}
+
+/**
+ * Highlight of each sheen, across every element's bounding box from its top left: gloss
+ * shows a narrow, bright reflection streak, satin a broad, soft sheen. Matte has none.
+ */
+const HIGHLIGHTS: Record<Exclude<TextureFinish, 'matte'>, [offset: number, opacity: number][]> = {
+	gloss: [
+		[0, 0.25],
+		[0.18, 0.06],
+		[0.36, 0],
+		[0.45, 0.3],
+		[0.5, 0.45],
+		[0.55, 0.3],
+		[0.64, 0],
+		[1, 0.05],
+	],
+	satin: [
+		[0, 0.22],
+		[0.45, 0.08],
+		[1, 0],
+	],
+}
+
+function getHighlightGradient(svg: SVGSVGElement, finish: Exclude<TextureFinish, 'matte'>): string {
+	const id = `finish-${finish}`
+	if (findDef(svg, id)) return id
+
+	const doc = svg.ownerDocument
+	const gradient = doc.createElementNS(SVG_NS, 'linearGradient')
+	gradient.setAttribute('id', id)
+	gradient.setAttribute('x1', '0')
+	gradient.setAttribute('y1', '0')
+	gradient.setAttribute('x2', '1')
+	gradient.setAttribute('y2', '1')
+	HIGHLIGHTS[finish].forEach(([offset, opacity]) => {
+		const stop = doc.createElementNS(SVG_NS, 'stop')
+		stop.setAttribute('offset', String(offset))
+		stop.setAttribute('stop-color', '#ffffff')
+		stop.setAttribute('stop-opacity', String(opacity))
+		gradient.appendChild(stop)
+	})
+	addGeneratedDef(svg, gradient)
+	return id
+}
+
+// The finish layer sits right after its element, or after the element's shading layer
+function getLayerAnchor(el: SVGElement): Element {
+	const next = el.nextElementSibling
+	return next?.classList.contains(SHADING_CLASS) ? next : el
+}
+
+export function removeFinishLayer(el: SVGElement): void {
+	const next = getLayerAnchor(el).nextElementSibling
+	if (next?.classList.contains(FINISH_CLASS)) next.remove()
+}
+
+/**
+ * Lay a specular highlight over each element for glossy and satin finishes, screened onto
+ * the material (and its shading) so it brightens without washing out the colour.
+ */
+export function applyFinishLayer(svg: SVGSVGElement, elements: SVGElement[], finish: TextureFinish | undefined): void {
+	elements.forEach((el) => {
+		removeFinishLayer(el)
+		if (!finish || finish === 'matte') return
+
+		const layer = cloneShape(el)
+		layer.setAttribute('fill', `url(#${getHighlightGradient(svg, finish)})`)
+		layer.setAttribute('class', FINISH_CLASS)
+		layer.setAttribute('pointer-events', 'none')
+		layer.setAttribute('aria-hidden', 'true')
+		layer.style.mixBlendMode = 'screen'
+		getLayerAnchor(el).after(layer)
+	})
+}
@@ -0,0 +1,102 @@
+import type { SceneLighting } from '../types'
+import { addGeneratedDef, findDef, hashKey, pruneUnusedDefs } from './svg-defs'
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+/** Wraps the scene's artwork so the lighting filter covers all of it */
+export const LIGHTING_CLASS = 'scene-lighting'
+
+export const MIN_KELVIN = 1800
+export const MAX_KELVIN = 10000
+/** Light the scene artwork is taken to be shown in; it is drawn unchanged under it */
+const NEUTRAL_KELVIN = 6500
+/** Share of the light's colour cast that shows, as eyes (and cameras) partly adapt to it */
+const CAST_STRENGTH = 0.4
+
+export const LIGHTING_PRESETS: { id: string; label: string; lighting: SceneLighting }[] = [
+	{ id: 'daylight', label: 'Daylight', lighting: { kelvin: 6500, brightness: 100 } },
+	{ id: 'cool', label: 'Cool white', lighting: { kelvin: 8000, brightness: 100 } },
+	{ id: 'warm', label: 'Warm LED', lighting: { kelvin: 2700, brightness: 95 } },
+	{ id: 'evening', label: 'Evening', lighting: { kelvin: 2200, brightness: 70 } },
+]
+
+export const DEFAULT_LIGHTING: SceneLighting = LIGHTING_PRESETS[0].lighting
+
+export function isNeutralLighting(lighting: SceneLighting | undefined): boolean {
+	return !lighting || (lighting.kelvin === NEUTRAL_KELVIN && lighting.brightness === 100)
+}
+
+export function getLightingPreset(lighting: SceneLighting | undefined) {
+	const { kelvin, brightness } = lighting ?? DEFAULT_LIGHTING
+	return LIGHTING_PRESETS.find((p) => p.lighting.kelvin === kelvin && p.lighting.brightness === brightness)
+}
+
+/** "Warm LED", or "3200 K, 85%" for lighting that is not a preset */
+export function getLightingLabel(lighting: SceneLighting | undefined): string {
+	const preset = getLightingPreset(lighting)
+	if (preset) return preset.label
+	const { kelvin, brightness } = lighting ?? DEFAULT_LIGHTING
+	return brightness === 100 ? `${kelvin} K` : `${kelvin} K, ${brightness}%`
+}
+
+// Colour of a black body at this temperature, 0-255 per channel (Tanner Helland's fit)
+function kelvinToRgb(kelvin: number): [number, number, number] {
+	const t = Math.min(MAX_KELVIN, Math.max(MIN_KELVIN, kelvin)) / 100
+	const clamp = (value: number) => Math.min(255, Math.max(0, value))
+	const r = t <= 66 ? 255 : 329.698727446 * (t - 60) ** -0.1332047592
+	const g = t <= 66 ? 99.4708025861 * Math.log(t) - 161.1195681661 : 288.1221695283 * (t - 60) ** -0.0755148492
+	const b = t >= 66 ? 255 : t <= 19 ? 0 : 138.5177312231 * Math.log(t - 10) - 305.0447927307
+	return [clamp(r), clamp(g), clamp(b)]
+}
+
+/** Multiplier of each channel under this light, relative to the neutral light */
+export function getLightingGains({ kelvin, brightness }: SceneLighting): [number, number, number] {
+	const light = kelvinToRgb(kelvin)
+	const neutral = kelvinToRgb(NEUTRAL_KELVIN)
+	const cast = light.map((c, i) => 1 - CAST_STRENGTH * (1 - c / neutral[i]))
+	// The strongest channel keeps its level, so the light tints without blowing out highlights
+	const peak = Math.max(...cast)
+	return cast.map((c) => (c / peak) * (brightness / 100)) as [number, number, number]
+}
+
+function getLightingFilter(svg: SVGSVGElement, lighting: SceneLighting): string {
+	const [r, g, b] = getLightingGains(lighting).map((v) => +v.toFixed(4))
+	const id = `lighting-${hashKey(JSON.stringify([r, g, b]))}`
+	if (findDef(svg, id)) return id
+
+	const doc = svg.ownerDocument
+	const filter = doc.createElementNS(SVG_NS, 'filter')
+	filter.setAttribute('id', id)
+	filter.setAttribute('color-interpolation-filters', 'sRGB')
+	const matrix = doc.createElementNS(SVG_NS, 'feColorMatrix')
+	matrix.setAttribute('type', 'matrix')
+	matrix.setAttribute('values', [r, 0, 0, 0, 0, 0, g, 0, 0, 0, 0, 0, b, 0, 0, 0, 0, 0, 1, 0].join(' '))
+	filter.appendChild(matrix)
+	addGeneratedDef(svg, filter)
+	return id
+}
+
+// The group around the artwork, made on first use from everything but the defs
+function getLightingGroup(svg: SVGSVGElement): SVGGElement {
+	const existing = Array.from(svg.children).find((el) => el.classList.contains(LIGHTING_CLASS))
+	if (existing) return existing as SVGGElement
+
+	const group = svg.ownerDocument.createElementNS(SVG_NS, 'g')
+	group.setAttribute('class', LIGHTING_CLASS)
+	Array.from(svg.childNodes)
+		.filter((node) => node.nodeName !== 'defs')
+		.forEach((node) => group.appendChild(node))
+	svg.appendChild(group)
+	return group
+}
+
+/**
+ * Show the scene under a light of some colour temperature and brightness: a colour
+ * transform over the whole composed scene, so exports made from the SVG show it too.
+ */
+export function applyLighting(svg: SVGSVGElement, lighting: SceneLighting | undefined): void {
+	const group = getLightingGroup(svg)
+	if (!lighting || isNeutralLighting(lighting)) group.removeAttribute('filter')
+	else group.setAttribute('filter', `url(#${getLightingFilter(svg, lighting)})`)
+	pruneUnusedDefs(svg)
+}
@@ -1,16 +1,30 @@
 import { jsPDF } from 'jspdf'
-import type { TextureOption, Theme } from '../types'
-import { getAssetUrl } from './content'
+import type {
+	KitchenSurfaceSettings,
+	SceneLighting,
+	SurfaceCategory,
+	TextureAdjustments,
+	TextureCategory,
+	TextureOption,
+	Theme,
+} from '../types'
+import { getAssetUrl, getContent, getSurfaceIds, getSurfaceLabel, splitSurfaceId } from './content'
+import { getSourceLabel } from './content-sources'
+import { cloneSceneSvg, serializeScene } from './scene-renderer'
+import { getFinishLabel, resolveFinish } from './finishes'
+import { getProductDetails } from './product-details'
+import { describeAdjustments, hasAdjustments } from './adjustments'
+import { getLightingLabel, isNeutralLighting } from './lighting'
 
 interface ExportData {
 	previewImage: string
-	selections: {
-		countertop: TextureOption | undefined
-		backsplash: TextureOption | undefined
-		cabinet: TextureOption | undefined
-		floor: TextureOption | undefined
-		background: TextureOption | undefined
-	}
+	/** Listed in this order */
+	categories: SurfaceCategory[]
+	selections: Record<TextureCategory, TextureOption | undefined>
+	/** Per-surface adjustments, e.g. a finish other than the material's */
+	surfaceSettings?: KitchenSurfaceSettings
+	/** Light the preview was shown under; named in the header unless it is plain daylight */
+	lighting?: SceneLighting
 	selectedTheme: Theme | null
 	sceneName: string
 }
@@ -21,7 +35,7 @@ const isMobileViewport = (): boolean => {
 }
 
 export async function exportToPdf(data: ExportData): Promise<void> {
-	const { previewImage, selections, selectedTheme, sceneName } = data
+	const { previewImage, categories, selections, surfaceSettings, lighting, selectedTheme, sceneName } = data
 	const mobile = isMobileViewport()
 
 	const formatDate = (date: Date) => {
@@ -99,8 +113,9 @@ export async function exportToPdf(data: ExportData): Promise<void> {
 	// Header
 	addText('Kitchen Preview', margin, yPos, titleSize, 'bold')
 	yPos += mobile ? 0.35 : 0.3
+	const lightingNote = isNeutralLighting(lighting) ? '' : ` | Lighting: ${getLightingLabel(lighting)}`
 	addText(
-		`Scene: ${sceneName} | ${formatDate(new Date())}`,
+		`Scene: ${sceneName}${lightingNote} | ${formatDate(new Date())}`,
 		margin,
 		yPos,
 		bodySize,
@@ -182,13 +197,25 @@ export async function exportToPdf(data: ExportData): Promise<void> {
 	}
 
 	// Texture items
-	const textureItems = [
-		{ label: 'Countertop', texture: selections.countertop },
-		{ label: 'Backsplash', texture: selections.backsplash },
-		{ label: 'Cabinet', texture: selections.cabinet },
-		{ label: 'Floor', texture: selections.floor },
-		{ label: 'Background', texture: selections.background },
-	].filter((item) => item.texture)
+	// Groups are listed only where they differ from their category (two-tone cabinets)
+	const textureItems = getSurfaceIds(categories)
+		.filter((id) => {
+			const [category, group] = splitSurfaceId(id)
+			return !group || selections[id]?.id !== selections[category]?.id
+		})
+		.map((id) => ({
+			label: getSurfaceLabel(categories, id),
+			texture: selections[id],
+			// Finishes are set per category, groups included
+			finish: resolveFinish(selections[id], surfaceSettings?.[splitSurfaceId(id)[0]]),
+			adjustments: getImageAdjustments(selections[id], surfaceSettings?.[splitSurfaceId(id)[0]]?.adjustments),
+			product: selections[id] ? getProductDetails(selections[id]) : [],
+		}))
+		.filter((item) => item.texture)
+
+	// Cards grow by a line per line of product details (brand, price, tags), alike across the list
+	const detailLineHeight = mobile ? 0.17 : 0.15
+	const cardHeight = itemHeight + Math.max(0, ...textureItems.map((item) => item.product.length)) * detailLineHeight
 
 	// Helper to load texture image and convert to data URI
 	const loadTextureThumbnail = async (textureValue: string): Promise<string | null> => {
@@ -244,7 +271,7 @@ export async function exportToPdf(data: ExportData): Promise<void> {
 		const col = i % itemsPerRow
 
 		// Check if we need a new page before starting a new row
-		if (col === 0 && yPos + itemHeight > pageHeight - margin - 0.5) {
+		if (col === 0 && yPos + cardHeight > pageHeight - margin - 0.5) {
 			pdf.addPage()
 			yPos = margin
 		}
@@ -254,16 +281,16 @@ export async function exportToPdf(data: ExportData): Promise<void> {
 
 		// Draw background with subtle shadow effect
 		pdf.setFillColor(255, 255, 255)
-		pdf.roundedRect(xPos, itemY, itemWidth, itemHeight, 0.08, 0.08, 'F')
+		pdf.roundedRect(xPos, itemY, itemWidth, cardHeight, 0.08, 0.08, 'F')
 
 		// Draw border with better contrast
 		pdf.setDrawColor(209, 213, 219)
 		pdf.setLineWidth(0.01)
-		pdf.roundedRect(xPos, itemY, itemWidth, itemHeight, 0.08, 0.08, 'D')
+		pdf.roundedRect(xPos, itemY, itemWidth, cardHeight, 0.08, 0.08, 'D')
 
 		// Calculate centered swatch position
 		const swatchX = xPos + swatchPadding
-		const swatchY = itemY + (itemHeight - swatchSize) / 2
+		const swatchY = itemY + (cardHeight - swatchSize) / 2
 
 		// Draw color swatch or texture image with border
 		if (item.texture.type === 'color') {
@@ -303,8 +330,10 @@ export async function exportToPdf(data: ExportData): Promise<void> {
 
 		// Calculate text position (centered vertically, aligned to swatch)
 		const textX = xPos + swatchSize + swatchPadding + textLeftMargin
-		const textCenterY = itemY + itemHeight / 2
-		const textStartY = textCenterY - 0.12 // Offset to center text block
+		const textCenterY = itemY + cardHeight / 2
+		// Offset to center text block; lines of image adjustments and product details move it up
+		const textStartY =
+			textCenterY - 0.12 - (item.adjustments ? 0.07 : 0) - (item.product.length * detailLineHeight) / 2
 
 		// Category label (uppercase, smaller)
 		addText(item.label.toUpperCase(), textX, textStartY, smallSize, 'normal', [
@@ -315,21 +344,36 @@ export async function exportToPdf(data: ExportData): Promise<void> {
 		const textureNameY = textStartY + (mobile ? 0.2 : 0.18)
 		addText(item.texture.label, textX, textureNameY, bodySize, 'bold')
 
-		// Color value or texture indicator (smaller, below name)
+		// Color value or texture indicator (smaller, below name), with the finish and supplier if known
 		const valueY = textureNameY + (mobile ? 0.2 : 0.18)
+		const hasAdjustmentsLine = item.texture.type === 'texture' && !!item.adjustments
+		const supplier = getSourceLabel(getContent().sources, item.texture.source)
+		const details = `${item.finish ? ` · ${getFinishLabel(item.finish)} finish` : ''}${supplier ? ` · ${supplier}` : ''}`
 		if (item.texture.type === 'color') {
-			addText(item.texture.value, textX, valueY, smallSize, 'normal', [
+			addText(`${item.texture.value}${details}`, textX, valueY, smallSize, 'normal', [
 				107, 114, 128,
 			])
 		} else if (item.texture.type === 'texture') {
-			addText('Texture Image', textX, valueY, smallSize, 'normal', [
+			addText(`Texture Image${details}`, textX, valueY, smallSize, 'normal', [
 				107, 114, 128,
 			])
+			if (item.adjustments) {
+				addText(item.adjustments, textX, valueY + (mobile ? 0.17 : 0.15), smallSize, 'normal', [107, 114, 128])
+			}
 		}
 
+		// Product details, cut to the card's width
+		const textWidth = xPos + itemWidth - textX - swatchPadding
+		pdf.setFontSize(smallSize)
+		pdf.setFont('helvetica', 'normal')
+		item.product.forEach((line, index) => {
+			const lineY = valueY + (index + (hasAdjustmentsLine ? 2 : 1)) * detailLineHeight
+			addText(pdf.splitTextToSize(line, textWidth)[0], textX, lineY, smallSize, 'normal', [75, 85, 99])
+		})
+
 		// Update yPos after completing a row
 		if (col === itemsPerRow - 1 || i === textureItems.length - 1) {
-			yPos += itemHeight + rowSpacing
+			yPos += cardHeight + rowSpacing
 		}
 	}
 
@@ -349,6 +393,13 @@ export async function exportToPdf(data: ExportData): Promise<void> {
 	pdf.save(`kitchen-preview-${Date.now()}.pdf`)
 }
 
+// "Hue +20°, tint #8A5A2B 40%" for adjusted texture images
+function getImageAdjustments(option: TextureOption | undefined, adjustments: TextureAdjustments | undefined) {
+	if (option?.type !== 'texture' || !hasAdjustments(adjustments)) return undefined
+	const description = describeAdjustments(adjustments)
+	return description.charAt(0).toUpperCase() + description.slice(1)
+}
+
 function hexToRgb(hex: string): { r: number; g: number; b: number } | null {
 	const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex)
 	return result
@@ -395,11 +446,11 @@ async function imageToDataUri(url: string): Promise<string> {
 }
 
 /**
- * Embed all external images in SVG patterns as data URIs
+ * Embed all external images (texture patterns, photo scene base and masks) as data URIs
  */
 async function embedSvgImages(svg: SVGSVGElement): Promise<void> {
-	// Find all <image> elements in patterns
-	const images = svg.querySelectorAll('pattern image, defs pattern image')
+	// Find all <image> elements, including those inside patterns and masks
+	const images = svg.querySelectorAll('image')
 	const imagePromises: Promise<void>[] = []
 	
 	images.forEach((imgElement) => {
@@ -430,92 +481,76 @@ async function embedSvgImages(svg: SVGSVGElement): Promise<void> {
 	await Promise.all(imagePromises)
 }
 
-export async function captureSvgAsImage(
-	svgElement: SVGSVGElement,
-): Promise<string> {
-	return new Promise(async (resolve, reject) => {
-		try {
-			const svgClone = svgElement.cloneNode(true) as SVGSVGElement
-			
-			// Get viewBox or calculate from dimensions
-			let viewBox = svgElement.getAttribute('viewBox')
-			let width = 1359
-			let height = 877
-			
-			if (viewBox) {
-				const parts = viewBox.split(' ')
-				if (parts.length === 4) {
-					width = parseFloat(parts[2]) || width
-					height = parseFloat(parts[3]) || height
-				}
-			}
-			// Always use viewBox / default dimensions for capture so PDF image is full resolution
-			// even when SVG is displayed small on mobile
-			
-			// Set explicit dimensions for high-quality rendering
-			svgClone.setAttribute('viewBox', `0 0 ${width} ${height}`)
-			svgClone.setAttribute('width', String(width))
-			svgClone.setAttribute('height', String(height))
-			svgClone.setAttribute('xmlns', 'http://www.w3.org/2000/svg')
-			svgClone.setAttributeNS('http://www.w3.org/2000/xmlns/', 'xmlns:xlink', 'http://www.w3.org/1999/xlink')
-			svgClone.style.width = String(width) + 'px'
-			svgClone.style.height = String(height) + 'px'
-
-			// Embed all external images as data URIs before serializing
-			console.log('[PDF Export] Embedding external images in SVG...')
-			await embedSvgImages(svgClone)
-			console.log('[PDF Export] Images embedded, serializing SVG...')
-
-			const svgData = new XMLSerializer().serializeToString(svgClone)
-			
-			// Create blob URL with embedded images
-			const svgBlob = new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' })
-			const url = URL.createObjectURL(svgBlob)
-
-			const img = new Image()
-			img.crossOrigin = 'anonymous'
-			
-			img.onload = () => {
-				const canvas = document.createElement('canvas')
-				// Use higher scale for better quality
-				const scale = 3
-				canvas.width = width * scale
-				canvas.height = height * scale
-				const ctx = canvas.getContext('2d')
-				if (!ctx) {
-					reject(new Error('Could not get canvas context'))
-					return
-				}
+/**
+ * Draw the whole scene on a canvas on white, at its natural size times `scale`, even when
+ * the preview is zoomed in or shown small on mobile
+ */
+export async function rasterizeScene(svgElement: SVGSVGElement, scale: number): Promise<HTMLCanvasElement> {
+	const { svg: svgClone, width, height } = cloneSceneSvg(svgElement)
+	svgClone.style.width = String(width) + 'px'
+	svgClone.style.height = String(height) + 'px'
 
-				// High-quality rendering
-				ctx.imageSmoothingEnabled = true
-				ctx.imageSmoothingQuality = 'high'
-				ctx.scale(scale, scale)
-				
-				// White background
-				ctx.fillStyle = '#ffffff'
-				ctx.fillRect(0, 0, width, height)
-				
-				// Draw the SVG
-				ctx.drawImage(img, 0, 0, width, height)
+	// Embed all external images as data URIs before serializing
+	console.log('[PDF Export] Embedding external images in SVG...')
+	await embedSvgImages(svgClone)
+	console.log('[PDF Export] Images embedded, serializing SVG...')
 
-				const dataUrl = canvas.toDataURL('image/png', 1.0)
-				URL.revokeObjectURL(url)
-				console.log('[PDF Export] SVG converted to image successfully')
-				resolve(dataUrl)
-			}
-			
-			img.onerror = (error) => {
-				URL.revokeObjectURL(url)
-				console.error('[PDF Export] Image load error:', error)
-				reject(new Error('Failed to load SVG as image'))
+	const svgData = serializeScene(svgClone)
+
+	return new Promise((resolve, reject) => {
+		// Create blob URL with embedded images
+		const svgBlob = new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' })
+		const url = URL.createObjectURL(svgBlob)
+
+		const img = new Image()
+		img.crossOrigin = 'anonymous'
+
+		img.onload = () => {
+			URL.revokeObjectURL(url)
+			const canvas = document.createElement('canvas')
+			canvas.width = width * scale
+			canvas.height = height * scale
+			const ctx = canvas.getContext('2d')
+			if (!ctx) {
+				reject(new Error('Could not get canvas context'))
+				return
 			}
-			
-			img.src = url
-		} catch (error) {
-			console.error('[PDF Export] Error capturing SVG:', error)
-			reject(error)
+
+			// High-quality rendering
+			ctx.imageSmoothingEnabled = true
+			ctx.imageSmoothingQuality = 'high'
+			ctx.scale(scale, scale)
+
+			// White background
+			ctx.fillStyle = '#ffffff'
+			ctx.fillRect(0, 0, width, height)
+
+			// Draw the SVG
+			ctx.drawImage(img, 0, 0, width, height)
+			resolve(canvas)
 		}
+
+		img.onerror = (error) => {
+			URL.revokeObjectURL(url)
+			console.error('[PDF Export] Image load error:', error)
+			reject(new Error('Failed to load SVG as image'))
+		}
+
+		img.src = url
 	})
 }
 
+export async function captureSvgAsImage(
+	svgElement: SVGSVGElement,
+): Promise<string> {
+	try {
+		// Use higher scale so the PDF image is full resolution
+		const canvas = await rasterizeScene(svgElement, 3)
+		const dataUrl = canvas.toDataURL('image/png', 1.0)
+		console.log('[PDF Export] SVG converted to image successfully')
+		return dataUrl
+	} catch (error) {
+		console.error('[PDF Export] Error capturing SVG:', error)
+		throw error
+	}
+}
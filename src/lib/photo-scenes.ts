@@ -0,0 +1,67 @@
+import type { Scene, TextureCategory } from '../types'
+import { loadImage } from './scene-renderer'
+
+/** Longest side of an uploaded photo once stored; keeps a scene within the browser's storage quota */
+const MAX_PHOTO_SIZE = 1600
+const PHOTO_QUALITY = 0.85
+
+export interface ScenePhoto {
+	/** JPEG data URL */
+	url: string
+	width: number
+	height: number
+}
+
+/** An uploaded photo as it is stored with the scene: scaled down and re-encoded as JPEG */
+export async function readScenePhoto(file: File): Promise<ScenePhoto> {
+	const objectUrl = URL.createObjectURL(file)
+	try {
+		const img = await loadImage(objectUrl)
+		const scale = Math.min(1, MAX_PHOTO_SIZE / Math.max(img.naturalWidth, img.naturalHeight))
+		const canvas = document.createElement('canvas')
+		canvas.width = Math.round(img.naturalWidth * scale)
+		canvas.height = Math.round(img.naturalHeight * scale)
+		const ctx = canvas.getContext('2d')
+		if (!ctx) throw new Error('Could not get canvas context')
+		ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+		return { url: canvas.toDataURL('image/jpeg', PHOTO_QUALITY), width: canvas.width, height: canvas.height }
+	} finally {
+		URL.revokeObjectURL(objectUrl)
+	}
+}
+
+/** Whether nothing has been painted on a mask */
+export function isMaskEmpty(canvas: HTMLCanvasElement): boolean {
+	const ctx = canvas.getContext('2d')
+	if (!ctx) return true
+	const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height)
+	for (let i = 3; i < data.length; i += 4) {
+		if (data[i] > 0) return false
+	}
+	return true
+}
+
+/**
+ * Photo scene of the user's own photo, with white-on-transparent masks (as PNG data URLs)
+ * for the surfaces they painted. `id` keeps an edited scene's id, so designs on it stay on it.
+ */
+export function createPhotoScene(
+	name: string,
+	photoUrl: string,
+	masks: Partial<Record<TextureCategory, string>>,
+	id = `photo-${Date.now()}`,
+): Scene {
+	return {
+		id,
+		name,
+		baseImageUrl: photoUrl,
+		maskCountertopUrl: '',
+		maskBacksplashUrl: '',
+		maskCabinetUrl: '',
+		maskFloorUrl: '',
+		masks,
+		isDefault: false,
+		order: Number.MAX_SAFE_INTEGER,
+		isPrivate: true,
+	}
+}
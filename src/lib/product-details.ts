@@ -0,0 +1,35 @@
+import type { PriceUnit, TextureOption } from '../types'
+
+export const PRICE_UNITS: { value: PriceUnit; label: string }[] = [
+	{ value: 'sqft', label: 'sq ft' },
+	{ value: 'linearft', label: 'linear ft' },
+	{ value: 'each', label: 'each' },
+]
+
+const priceFormat = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+
+export function getPriceUnitLabel(unit: PriceUnit): string {
+	return PRICE_UNITS.find((u) => u.value === unit)?.label ?? unit
+}
+
+/** "$12.50 / sq ft", "$8.00 each", or "$12.50" without a unit; undefined without a price */
+export function formatPrice({ price, unit }: Pick<TextureOption, 'price' | 'unit'>): string | undefined {
+	if (price === undefined) return undefined
+	if (!unit) return priceFormat.format(price)
+	return `${priceFormat.format(price)}${unit === 'each' ? ' ' : ' / '}${getPriceUnitLabel(unit)}`
+}
+
+/**
+ * The option's product details as up to three lines: brand, collection and SKU; price and
+ * lead time; tags. Empty for options without any (e.g. plain colours).
+ */
+export function getProductDetails(option: TextureOption): string[] {
+	const product = [[option.brand, option.collection].filter(Boolean).join(' '), option.sku && `SKU ${option.sku}`]
+	const quote = [formatPrice(option), option.leadTime && `Lead time ${option.leadTime}`]
+	const lines = [
+		product.filter(Boolean).join(' · '),
+		quote.filter(Boolean).join(' · '),
+		option.tags?.length ? `Tags: ${option.tags.join(', ')}` : '',
+	]
+	return lines.filter(Boolean)
+}
@@ -0,0 +1,186 @@
+import type { ScenePoint, SurfaceProjection } from '../types'
+
+/** Row-major 3×3 matrix mapping plane coordinates (mm) to scene coordinates. */
+export type Homography = number[]
+
+export interface ProjectedTexture {
+	canvas: HTMLCanvasElement
+	/** Scene-space bounding box the canvas covers */
+	x: number
+	y: number
+	width: number
+	height: number
+}
+
+export interface ProjectedTextureOptions {
+	/** Seamless tile drawn repeatedly across the plane */
+	source: CanvasImageSource
+	sourceWidth: number
+	sourceHeight: number
+	/** Physical size of one tile on the plane, in mm */
+	tileWidthMm: number
+	tileHeightMm: number
+	projection: SurfaceProjection
+	/** Scene-space area to render, usually the surface's bounding box; defaults to the corners' bounding box */
+	bounds?: { x: number; y: number; width: number; height: number }
+	/** Output pixels per scene unit */
+	resolution?: number
+	/** Document the canvases are created in; defaults to the page's */
+	document?: Document
+}
+
+const MAX_CANVAS_SIDE = 4096
+
+// Solve A·x = b with Gaussian elimination and partial pivoting
+function solveLinearSystem(a: number[][], b: number[]): number[] {
+	const n = b.length
+	const m = a.map((row, i) => [...row, b[i]])
+	for (let col = 0; col < n; col++) {
+		let pivot = col
+		for (let row = col + 1; row < n; row++) {
+			if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row
+		}
+		if (Math.abs(m[pivot][col]) < 1e-12) {
+			throw new Error('Degenerate projection: corners must form a non-collinear quadrilateral')
+		}
+		;[m[col], m[pivot]] = [m[pivot], m[col]]
+		for (let row = 0; row < n; row++) {
+			if (row === col) continue
+			const factor = m[row][col] / m[col][col]
+			for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k]
+		}
+	}
+	return m.map((row, i) => row[n] / row[i])
+}
+
+/** Homography mapping the four `from` points onto the four `to` points. */
+export function computeHomography(from: ScenePoint[], to: ScenePoint[]): Homography {
+	const a: number[][] = []
+	const b: number[] = []
+	for (let i = 0; i < 4; i++) {
+		const { x, y } = from[i]
+		const { x: u, y: v } = to[i]
+		a.push([x, y, 1, 0, 0, 0, -u * x, -u * y])
+		b.push(u)
+		a.push([0, 0, 0, x, y, 1, -v * x, -v * y])
+		b.push(v)
+	}
+	return [...solveLinearSystem(a, b), 1]
+}
+
+export function invertHomography(h: Homography): Homography {
+	const [a, b, c, d, e, f, g, k, l] = h
+	const det = a * (e * l - f * k) - b * (d * l - f * g) + c * (d * k - e * g)
+	if (Math.abs(det) < 1e-12) throw new Error('Projection homography is not invertible')
+	return [
+		(e * l - f * k) / det, (c * k - b * l) / det, (b * f - c * e) / det,
+		(f * g - d * l) / det, (a * l - c * g) / det, (c * d - a * f) / det,
+		(d * k - e * g) / det, (b * g - a * k) / det, (a * e - b * d) / det,
+	]
+}
+
+/** Plane (mm) → scene homography for a surface projection. */
+export function getProjectionHomography(projection: SurfaceProjection): Homography {
+	if (projection.homography?.length === 9) return projection.homography
+	const { widthMm, depthMm } = projection
+	return computeHomography(
+		[{ x: 0, y: 0 }, { x: widthMm, y: 0 }, { x: widthMm, y: depthMm }, { x: 0, y: depthMm }],
+		projection.corners,
+	)
+}
+
+function getSourcePixels(doc: Document, source: CanvasImageSource, width: number, height: number): ImageData {
+	const canvas = doc.createElement('canvas')
+	canvas.width = width
+	canvas.height = height
+	const ctx = canvas.getContext('2d')
+	if (!ctx) throw new Error('Could not get canvas context')
+	ctx.drawImage(source, 0, 0, width, height)
+	return ctx.getImageData(0, 0, width, height)
+}
+
+/**
+ * Pre-render a tiled texture warped onto a projected plane. Every output pixel is
+ * mapped back onto the plane through the inverse homography and bilinearly sampled
+ * from the repeating tile, so the plane extends past its corners up to `bounds`;
+ * the surface shape it fills clips it to the visible area.
+ */
+export function renderProjectedTexture({
+	source,
+	sourceWidth,
+	sourceHeight,
+	tileWidthMm,
+	tileHeightMm,
+	projection,
+	bounds,
+	resolution = 1,
+	document: doc = document,
+}: ProjectedTextureOptions): ProjectedTexture {
+	const planeToScene = getProjectionHomography(projection)
+	const sceneToPlane = invertHomography(planeToScene)
+
+	const xs = projection.corners.map((p) => p.x)
+	const ys = projection.corners.map((p) => p.y)
+	const box = bounds ?? {
+		x: Math.min(...xs),
+		y: Math.min(...ys),
+		width: Math.max(...xs) - Math.min(...xs),
+		height: Math.max(...ys) - Math.min(...ys),
+	}
+	const x = Math.floor(box.x)
+	const y = Math.floor(box.y)
+	const width = Math.ceil(box.x + box.width) - x
+	const height = Math.ceil(box.y + box.height) - y
+	const scale = Math.min(resolution, MAX_CANVAS_SIDE / width, MAX_CANVAS_SIDE / height)
+
+	const canvas = doc.createElement('canvas')
+	canvas.width = Math.max(1, Math.round(width * scale))
+	canvas.height = Math.max(1, Math.round(height * scale))
+	const ctx = canvas.getContext('2d')
+	if (!ctx) throw new Error('Could not get canvas context')
+
+	const src = getSourcePixels(doc, source, sourceWidth, sourceHeight).data
+	const out = ctx.createImageData(canvas.width, canvas.height)
+	const [a, b, c, d, e, f, g, h, i] = sceneToPlane
+	const pxPerMmX = sourceWidth / tileWidthMm
+	const pxPerMmY = sourceHeight / tileHeightMm
+	const wrap = (value: number, size: number) => ((value % size) + size) % size
+	// The inverse is only defined up to scale; the plane origin fixes which sign of w is in front
+	const originX = planeToScene[2] / planeToScene[8]
+	const originY = planeToScene[5] / planeToScene[8]
+	const front = Math.sign(g * originX + h * originY + i)
+
+	for (let py = 0; py < canvas.height; py++) {
+		const sy = y + (py + 0.5) / scale
+		for (let px = 0; px < canvas.width; px++) {
+			const sx = x + (px + 0.5) / scale
+			const w = g * sx + h * sy + i
+			// Points beyond the horizon have no projection
+			if (w * front <= 0) continue
+			const u = ((a * sx + b * sy + c) / w) * pxPerMmX - 0.5
+			const v = ((d * sx + e * sy + f) / w) * pxPerMmY - 0.5
+
+			const u0 = Math.floor(u)
+			const v0 = Math.floor(v)
+			const fu = u - u0
+			const fv = v - v0
+			const x0 = wrap(u0, sourceWidth)
+			const x1 = wrap(u0 + 1, sourceWidth)
+			const y0 = wrap(v0, sourceHeight)
+			const y1 = wrap(v0 + 1, sourceHeight)
+			const i00 = (y0 * sourceWidth + x0) * 4
+			const i10 = (y0 * sourceWidth + x1) * 4
+			const i01 = (y1 * sourceWidth + x0) * 4
+			const i11 = (y1 * sourceWidth + x1) * 4
+			const o = (py * canvas.width + px) * 4
+			for (let ch = 0; ch < 4; ch++) {
+				const top = src[i00 + ch] * (1 - fu) + src[i10 + ch] * fu
+				const bottom = src[i01 + ch] * (1 - fu) + src[i11 + ch] * fu
+				out.data[o + ch] = top * (1 - fv) + bottom * fv
+			}
+		}
+	}
+
+	ctx.putImageData(out, 0, 0)
+	return { canvas, x, y, width, height }
+}
@@ -0,0 +1,134 @@
+import type { Scene, SceneSurface, SceneSurfaces, SurfaceCategory, SurfaceSelector, TextureCategory } from '../types'
+import { getSurfaceIds, splitSurfaceId } from './content'
+import {
+	getElementFillColor,
+	getSurfaceSelector,
+	resolveCategoryElements,
+	resolveSurfaceElements,
+	SHAPE_SELECTOR,
+} from './surfaces'
+
+/** Surface each element of the artwork is assigned to, by selection key ("cabinet" or "cabinet.upper") */
+export type SurfaceAssignments = Map<SVGElement, TextureCategory>
+
+export interface FillUsage {
+	/** Resolved fill, lower-case hex */
+	fill: string
+	elements: SVGElement[]
+}
+
+// Fields of a surface mapping that pick its elements, as opposed to its rendering settings
+const SELECTOR_FIELDS = ['ids', 'idPrefixes', 'selectors', 'fills', 'fillPrefixes', 'exclude', 'groups'] as const
+
+/** Shapes of the artwork that can be surfaces (those inside `<defs>` only paint through patterns) */
+export function getSceneShapes(svg: SVGSVGElement): SVGElement[] {
+	return Array.from(svg.querySelectorAll<SVGElement>(SHAPE_SELECTOR)).filter((el) => !el.closest('defs'))
+}
+
+/** The artwork's shapes grouped by fill colour, most used first; shapes without a solid fill are left out */
+export function getFillUsage(svg: SVGSVGElement): FillUsage[] {
+	const byFill = new Map<string, SVGElement[]>()
+	getSceneShapes(svg).forEach((el) => {
+		const fill = getElementFillColor(el)
+		if (!fill.startsWith('#')) return
+		byFill.set(fill, [...(byFill.get(fill) ?? []), el])
+	})
+	return Array.from(byFill, ([fill, elements]) => ({ fill, elements })).sort(
+		(a, b) => b.elements.length - a.elements.length || a.fill.localeCompare(b.fill),
+	)
+}
+
+/** What an existing scene mapping (or the id convention) assigns to each surface */
+export function readSceneAssignments(
+	svg: SVGSVGElement,
+	scene: Scene,
+	categories: SurfaceCategory[],
+): SurfaceAssignments {
+	const assignments: SurfaceAssignments = new Map()
+	getSurfaceIds(categories).forEach((surface) => {
+		const [category, group] = splitSurfaceId(surface)
+		const groups = categories.find((c) => c.id === category)?.groups?.map((g) => g.id) ?? []
+		const elements = group
+			? resolveSurfaceElements(svg, getSurfaceSelector(scene, surface))
+			: resolveCategoryElements(svg, scene, category, groups)
+		elements.forEach((el) => assignments.set(el, surface))
+	})
+	return assignments
+}
+
+// Give an element without an id one following the `<category>-surface-<group>-<n>` convention
+function claimId(svg: SVGSVGElement, el: SVGElement, surface: TextureCategory): string {
+	if (el.id) return el.id
+	const prefix = `${surface.replace('.', '-surface-')}${surface.includes('.') ? '' : '-surface'}`
+	let n = 1
+	while (svg.querySelector(`[id="${prefix}-${n}"]`)) n++
+	el.id = `${prefix}-${n}`
+	return el.id
+}
+
+// Whole fill colours where the elements include every shape of a colour used more than once,
+// ids for the rest
+function describeElements(
+	svg: SVGSVGElement,
+	elements: SVGElement[],
+	surface: TextureCategory,
+	usage: FillUsage[],
+): SurfaceSelector {
+	const included = new Set(elements)
+	const fills = usage
+		.filter((u) => u.elements.length > 1 && u.elements.every((el) => included.has(el)))
+		.map((u) => u.fill)
+	const byFill = new Set(usage.filter((u) => fills.includes(u.fill)).flatMap((u) => u.elements))
+	const ids = elements.filter((el) => !byFill.has(el)).map((el) => claimId(svg, el, surface))
+	return {
+		...(ids.length > 0 && { ids }),
+		...(fills.length > 0 && { fills }),
+	}
+}
+
+/**
+ * Surface mappings for `scenes.json` from the assignments. Elements are picked by fill
+ * colour where a surface has every shape of a colour, by id otherwise; elements without
+ * an id are given one, so the artwork has to be saved again when `addedIds` is set.
+ * Rendering settings (projection, scale, shading) of `previous` are kept.
+ */
+export function buildSceneSurfaces(
+	svg: SVGSVGElement,
+	assignments: SurfaceAssignments,
+	previous: SceneSurfaces = {},
+): { surfaces: SceneSurfaces; addedIds: boolean } {
+	const hadId = new Set(Array.from(assignments.keys()).filter((el) => el.id))
+	const usage = getFillUsage(svg)
+
+	// Elements of each surface in document order
+	const bySurface = new Map<TextureCategory, SVGElement[]>()
+	getSceneShapes(svg).forEach((el) => {
+		const surface = assignments.get(el)
+		if (surface) bySurface.set(surface, [...(bySurface.get(surface) ?? []), el])
+	})
+
+	const surfaces: SceneSurfaces = {}
+	const categories = new Set(Array.from(bySurface.keys(), (surface) => splitSurfaceId(surface)[0]))
+	categories.forEach((category) => {
+		const settings: SceneSurface = { ...previous[category] }
+		SELECTOR_FIELDS.forEach((field) => delete settings[field])
+
+		// The category covers its groups' elements too; each group claims its own from it
+		const groups = Array.from(bySurface.keys()).filter(
+			(surface) => surface !== category && splitSurfaceId(surface)[0] === category,
+		)
+		// Groups first, so their elements are named after the group
+		const groupSelectors = groups.map((surface) => ({
+			id: splitSurfaceId(surface)[1]!,
+			...describeElements(svg, bySurface.get(surface) ?? [], surface, usage),
+		}))
+		const elements = getSceneShapes(svg).filter((el) => splitSurfaceId(assignments.get(el) ?? '')[0] === category)
+		surfaces[category] = {
+			...describeElements(svg, elements, category, usage),
+			...(groupSelectors.length > 0 && { groups: groupSelectors }),
+			...settings,
+		}
+	})
+
+	return { surfaces, addedIds: Array.from(assignments.keys()).some((el) => el.id && !hadId.has(el)) }
+}
@@ -0,0 +1,52 @@
+// @vitest-environment jsdom
+import { createCanvas, DOMMatrix, Path2D } from '@napi-rs/canvas'
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+import categoriesFile from '../../public/content/categories.json'
+import scenesFile from '../../public/content/scenes.json'
+import texturesFile from '../../public/content/textures.json'
+import themesFile from '../../public/content/themes.json'
+import kitchenBaseSvg from '../../public/scenes/kitchen-base.svg?raw'
+import { parseContent, resolveSelectionOptions } from './content'
+import { cloneSceneSvg, renderScene } from './scene-renderer'
+
+const { categories, textures, scenes, themes } = parseContent({
+	categories: categoriesFile,
+	textures: texturesFile,
+	scenes: scenesFile,
+	themes: themesFile,
+})
+const textureMap = new Map(textures.map((t) => [t.id, t]))
+
+// jsdom has no canvas: projected surfaces are drawn on @napi-rs/canvas ones, as in the batch renders
+beforeAll(() => {
+	const createElement = document.createElement.bind(document)
+	vi.spyOn(document, 'createElement').mockImplementation((name: string, options?: ElementCreationOptions) =>
+		name.toLowerCase() === 'canvas' ? (createCanvas(1, 1) as unknown as HTMLElement) : createElement(name, options),
+	)
+	Object.assign(window, { Path2D, DOMMatrix })
+	vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+// The two-tone theme is colours only, so no images are loaded
+const render = async (themeId: string) => {
+	const scene = scenes.find((s) => s.id === 'kitchen-base')!
+	const theme = themes.find((t) => t.id === themeId)!
+	const options = resolveSelectionOptions(categories, theme.selections, textureMap)
+	const svg = await renderScene(kitchenBaseSvg, scene, options, { strictProjection: true })
+	return cloneSceneSvg(svg).svg
+}
+
+describe('renderScene', () => {
+	it('renders a theme on a scene', async () => {
+		const svg = await render('two-tone-navy')
+		// Projected surfaces are embedded as PNGs, whose bytes are up to the canvas library
+		expect(svg.outerHTML.replace(/data:image\/png;base64,[^"]+/g, 'data:image/png;base64,…')).toMatchSnapshot()
+	})
+
+	it('paints a category group apart from its category', async () => {
+		const svg = await render('two-tone-navy')
+		const fill = (id: string) => svg.querySelector(`#${id}`)?.getAttribute('fill')
+		expect(fill('cabinet-surface-upper-1')).toBe(textureMap.get('cabinet-white')!.value)
+		expect(fill('cabinet-surface-lower-1')).toBe(textureMap.get('cabinet-navy')!.value)
+	})
+})
@@ -0,0 +1,680 @@
+import type { KitchenSurfaceSettings, Scene, SurfaceProjection, TextureCategory, TextureOption, TileLayout } from '../types'
+import { getAssetUrl, getSceneMasks, isPhotoScene, splitSurfaceId } from './content'
+import {
+	getSceneSurface,
+	getSurfacePxPerMm,
+	getSurfaceSelector,
+	getSurfaceShading,
+	resolveCategoryElements,
+} from './surfaces'
+import { applyShadingLayer, captureOriginalFill } from './shading'
+import { applyFinishLayer, resolveFinish } from './finishes'
+import { getAdjustmentFilter, hasAdjustments } from './adjustments'
+import { renderProjectedTexture, type ProjectedTextureOptions } from './projection'
+import { addGeneratedDef, findDef, hashKey, pruneUnusedDefs } from './svg-defs'
+import { formatViewBox, getHomeViewBox, HOME_VIEW_BOX_ATTR, parseViewBox, type ViewBox } from './viewport'
+import {
+	createTileLayoutPattern,
+	drawTileLayoutCanvas,
+	getLayoutScale,
+	resolveTileLayout,
+	type TileFill,
+} from './tile-layouts'
+
+/**
+ * Rendering core shared by the preview, exports and tooling: it draws selections onto a
+ * scene's SVG using only the DOM the SVG belongs to, so it runs under jsdom (or any other
+ * DOM implementation) as well as in the browser.
+ */
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+const XLINK_NS = 'http://www.w3.org/1999/xlink'
+const XMLNS_NS = 'http://www.w3.org/2000/xmlns/'
+
+/** Size of scenes whose artwork states neither a viewBox nor a size */
+const DEFAULT_VIEW_BOX: ViewBox = { x: 0, y: 0, width: 1359, height: 877 }
+
+/** The option drawn on each surface, by selection key (category or group id) */
+export type SurfaceOptions = Record<TextureCategory, TextureOption | undefined>
+
+/** Loads texture and photo images; abort `signal` to stop waiting for one */
+export type ImageLoader = (src: string, signal?: AbortSignal) => Promise<HTMLImageElement>
+
+export interface SceneRenderOptions {
+	/** Per-surface adjustments such as tile layout and grout */
+	surfaceSettings?: KitchenSurfaceSettings
+	/** Multiple of their base resolution projected patterns are rendered at, e.g. the zoom */
+	renderScale?: number
+	/** Output pixels per CSS pixel for projected patterns; defaults to the window's, up to 2 */
+	pixelRatio?: number
+	/** Defaults to loading an `Image` of the page */
+	loadImage?: ImageLoader
+	/** Nothing is drawn once aborted */
+	signal?: AbortSignal
+	/** Fail instead of tiling a projected surface flat when it cannot be warped, e.g. without a canvas */
+	strictProjection?: boolean
+}
+
+/** Tile source for a projected pattern, drawn only when the pattern is not cached yet */
+type ProjectionSource = Pick<ProjectedTextureOptions, 'source' | 'sourceWidth' | 'sourceHeight' | 'tileWidthMm' | 'tileHeightMm'>
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError'
+
+/** A projected surface that could not be warped, thrown with `strictProjection` */
+export class ProjectionError extends Error {
+	constructor(category: TextureCategory, cause: unknown) {
+		super(`Could not project the ${category} surface: ${cause instanceof Error ? cause.message : String(cause)}`)
+		this.name = 'ProjectionError'
+	}
+}
+
+// An image source for logs: data URLs (e.g. private photos and their masks) only by type and size
+const describeImageSource = (src: string) =>
+	src.startsWith('data:') ? `${src.slice(0, src.search(/[;,]/))} (${Math.round(src.length / 1024)} KB)` : src
+
+export function loadImage(src: string, signal?: AbortSignal): Promise<HTMLImageElement> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new DOMException('Image load aborted', 'AbortError'))
+			return
+		}
+		const img = new Image()
+		// A superseded update stops waiting for its image straight away
+		const onAbort = () => {
+			img.onload = null
+			img.onerror = null
+			reject(new DOMException('Image load aborted', 'AbortError'))
+		}
+		signal?.addEventListener('abort', onAbort, { once: true })
+		// Only set crossOrigin if loading from a different origin
+		// For same-origin images, this can cause CORS issues
+		if (!src.startsWith(window.location.origin) && !src.startsWith('/')) {
+			img.crossOrigin = 'anonymous'
+		}
+		img.onload = () => {
+			signal?.removeEventListener('abort', onAbort)
+			console.log(`Image loaded successfully: ${describeImageSource(src)}`, {
+				width: img.width,
+				height: img.height,
+				naturalWidth: img.naturalWidth,
+				naturalHeight: img.naturalHeight
+			})
+			resolve(img)
+		}
+		img.onerror = (e) => {
+			signal?.removeEventListener('abort', onAbort)
+			console.error(`Failed to load image: ${describeImageSource(src)}`, e)
+			reject(new Error(`Failed to load ${describeImageSource(src)}`))
+		}
+		img.src = src
+	})
+}
+
+function applyFill(elements: SVGElement[], fillValue: string) {
+	elements.forEach((el) => {
+		// Remove fill attribute to clear any existing value
+		el.removeAttribute('fill')
+
+		// Clear any existing inline style
+		el.style.fill = ''
+		el.style.stroke = ''
+
+		// Remove fill from style attribute if present
+		const styleAttr = el.getAttribute('style') || ''
+		if (styleAttr) {
+			const newStyle = styleAttr
+				.replace(/fill:\s*[^;]+;?/gi, '')
+				.replace(/fill:\s*[^;]+/gi, '')
+				.trim()
+			if (newStyle) {
+				el.setAttribute('style', newStyle)
+			} else {
+				el.removeAttribute('style')
+			}
+		}
+
+		// Set the new fill value using both attribute and style for maximum compatibility
+		el.setAttribute('fill', fillValue)
+		el.style.fill = fillValue
+	})
+}
+
+// Single-image pattern covering exactly the given box (no visible tiling), drawn through
+// `filterId` if given. Pattern ids identify their content, so an existing pattern with the
+// same id is reused as-is.
+function createImagePattern(
+	svg: SVGSVGElement,
+	patternId: string,
+	href: string,
+	box: { x: number; y: number; width: number; height: number },
+	filterId?: string,
+): string {
+	if (findDef(svg, patternId)) return patternId
+
+	const doc = svg.ownerDocument
+	const pattern = doc.createElementNS(SVG_NS, 'pattern')
+	pattern.setAttribute('id', patternId)
+	pattern.setAttribute('x', String(box.x))
+	pattern.setAttribute('y', String(box.y))
+	pattern.setAttribute('width', String(box.width))
+	pattern.setAttribute('height', String(box.height))
+	pattern.setAttribute('patternUnits', 'userSpaceOnUse')
+	pattern.setAttribute('patternContentUnits', 'userSpaceOnUse')
+
+	const image = doc.createElementNS(SVG_NS, 'image')
+	// Use xlink:href for better compatibility (required in some browsers)
+	image.setAttributeNS(XLINK_NS, 'href', href)
+	// Also set href for SVG 2.0 compatibility
+	image.setAttribute('href', href)
+	// Pattern content is positioned relative to the tile origin (box.x, box.y)
+	image.setAttribute('x', '0')
+	image.setAttribute('y', '0')
+	image.setAttribute('width', String(box.width))
+	image.setAttribute('height', String(box.height))
+	image.setAttribute('preserveAspectRatio', 'none')
+	if (filterId) image.setAttribute('filter', `url(#${filterId})`)
+	pattern.appendChild(image)
+	addGeneratedDef(svg, pattern)
+	return patternId
+}
+
+/** Scene-space bounding box of some elements; undefined where the DOM has no layout (e.g. jsdom) */
+export function getElementsBounds(elements: SVGElement[]) {
+	const boxes = elements
+		.filter((el): el is SVGGraphicsElement => typeof (el as SVGGraphicsElement).getBBox === 'function')
+		.map((el) => el.getBBox())
+	if (boxes.length === 0) return undefined
+	const x = Math.min(...boxes.map((b) => b.x))
+	const y = Math.min(...boxes.map((b) => b.y))
+	return {
+		x,
+		y,
+		width: Math.max(...boxes.map((b) => b.x + b.width)) - x,
+		height: Math.max(...boxes.map((b) => b.y + b.height)) - y,
+	}
+}
+
+const getPixelRatio = (options: SceneRenderOptions) =>
+	options.pixelRatio ?? Math.min(2, (typeof window === 'undefined' ? 1 : window.devicePixelRatio) || 1)
+
+// Warp a repeating tile onto the surface's projected plane and embed the result as a pattern
+// covering the surface's elements. Warping is expensive, so the result is cached per source
+// and projection.
+function createProjectedPattern(
+	svg: SVGSVGElement,
+	elements: SVGElement[],
+	category: TextureCategory,
+	sourceKey: string,
+	projection: SurfaceProjection,
+	getSource: () => ProjectionSource,
+	options: SceneRenderOptions,
+	filterId?: string,
+): string {
+	const bounds = getElementsBounds(elements)
+	const renderScale = options.renderScale ?? 1
+	const patternId = `projected-${category}-${hashKey(JSON.stringify([sourceKey, projection, bounds, renderScale, filterId]))}`
+	if (findDef(svg, patternId)) return patternId
+
+	const projected = renderProjectedTexture({
+		...getSource(),
+		projection,
+		bounds,
+		resolution: getPixelRatio(options) * renderScale,
+		document: svg.ownerDocument,
+	})
+	return createImagePattern(svg, patternId, projected.canvas.toDataURL('image/png'), projected, filterId)
+}
+
+// Cut the surface into tiles: warped onto its projected plane if it has one, flat otherwise
+function createLayoutPattern(
+	svg: SVGSVGElement,
+	elements: SVGElement[],
+	category: TextureCategory,
+	layout: TileLayout,
+	fill: TileFill,
+	pxPerMm: number | undefined,
+	projection: SurfaceProjection | undefined,
+	options: SceneRenderOptions,
+	filterId?: string,
+): string {
+	if (projection) {
+		try {
+			const fillKey = fill.type === 'color' ? fill.color : fill.patternId
+			const getSource = () => {
+				const tile = drawTileLayoutCanvas(layout, fill, svg.ownerDocument)
+				return {
+					source: tile.canvas,
+					sourceWidth: tile.canvas.width,
+					sourceHeight: tile.canvas.height,
+					tileWidthMm: tile.widthMm,
+					tileHeightMm: tile.heightMm,
+				}
+			}
+			// The tiles are drawn from the unadjusted image, so the adjustments apply to the
+			// projected result, grout included
+			return createProjectedPattern(
+				svg,
+				elements,
+				category,
+				JSON.stringify([layout, fillKey]),
+				projection,
+				getSource,
+				options,
+				filterId,
+			)
+		} catch (error) {
+			if (options.strictProjection) throw new ProjectionError(category, error)
+			console.warn('[updateSurface] Projection failed, tiling flat instead:', error)
+		}
+	}
+	return createTileLayoutPattern(svg, layout, fill, pxPerMm)
+}
+
+// Adjustments made to a category apply to its groups too
+const getSettings = (category: TextureCategory, options: SceneRenderOptions) =>
+	options.surfaceSettings?.[splitSurfaceId(category)[0]]
+
+/** Groups of a category that are drawn on their own, so the category leaves their elements alone */
+export function getSurfaceGroups(selections: SurfaceOptions, category: TextureCategory): string[] {
+	return Object.keys(selections).flatMap((id) => {
+		const [parent, group] = splitSurfaceId(id)
+		return parent === category && group ? [group] : []
+	})
+}
+
+/**
+ * Redraw one surface with its option in `selections`. Resolves to whether the scene was
+ * changed; nothing is touched once `options.signal` is aborted.
+ */
+export async function updateSurface(
+	svg: SVGSVGElement,
+	scene: Scene,
+	category: TextureCategory,
+	selections: SurfaceOptions,
+	options: SceneRenderOptions = {},
+): Promise<boolean> {
+	const opt = selections[category]
+	const { signal, loadImage: load = loadImage } = options
+	// Scene-specific surface mapping (from scenes.json, or the id convention)
+	const selector = getSurfaceSelector(scene, category)
+	const { projection } = getSceneSurface(scene, category)
+	const pxPerMm = getSurfacePxPerMm(scene, category)
+	// Groups (e.g. cabinet.upper) are laid out like their category
+	const [parentCategory] = splitSurfaceId(category)
+	const isFloor = parentCategory === 'floor'
+	const layout = opt ? resolveTileLayout(parentCategory, opt, getSettings(category, options)?.layout) : null
+	const elements = resolveCategoryElements(svg, scene, category, getSurfaceGroups(selections, category))
+
+	if (!opt) {
+		console.warn('[updateSurface] No texture option provided')
+		return false
+	}
+
+	if (elements.length === 0) {
+		console.warn('[updateSurface] No elements found for selector:', selector)
+		return false
+	}
+
+	// Verify texture option has required properties
+	if (!opt.type) {
+		console.error('[updateSurface] Texture option missing type:', opt)
+		return false
+	}
+
+	elements.forEach(captureOriginalFill)
+
+	console.log(`[updateSurface] Applying ${opt.type} texture (id: ${opt.id}) to ${elements.length} element(s):`, {
+		selector,
+		type: opt.type,
+		value: describeImageSource(opt.value),
+		category,
+		isFloor,
+		projected: !!projection,
+		layout: layout?.type,
+	})
+
+	if (opt.type === 'color') {
+		// Apply color directly - inline styles take precedence, so set style.fill directly
+		let fillValue = opt.value
+
+		// Tiled surfaces (colour floors always are) get a pattern of tiles and grout
+		if (layout) {
+			fillValue = `url(#${createLayoutPattern(svg, elements, category, layout, { type: 'color', color: opt.value }, pxPerMm, projection, options)})`
+		}
+
+		applyFill(elements, fillValue)
+	} else if (opt.type === 'texture') {
+		// For texture images, create a pattern
+		try {
+			const textureUrl = getAssetUrl(opt.value)
+			const texImg = await load(textureUrl, signal)
+			if (signal?.aborted) return false
+
+			// Get actual image dimensions
+			const imgWidth = texImg.naturalWidth || texImg.width || 200
+			const imgHeight = texImg.naturalHeight || texImg.height || 200
+
+			// Textures with a physical size are drawn at true relative scale (mm × scene px/mm);
+			// otherwise fall back to the image's pixel dimensions
+			let patternWidth = imgWidth
+			let patternHeight = imgHeight
+			if (opt.widthMm && pxPerMm) {
+				patternWidth = opt.widthMm * pxPerMm
+				patternHeight = opt.heightMm
+					? opt.heightMm * pxPerMm
+					: patternWidth * (imgHeight / imgWidth)
+			}
+
+			// Tint, hue, brightness and contrast chosen for this surface
+			const adjustments = getSettings(category, options)?.adjustments
+			const filterId = hasAdjustments(adjustments) ? getAdjustmentFilter(svg, adjustments) : undefined
+
+			// Flat texture pattern, shared by every surface showing this texture at this size
+			const texturePatternId = `texture-${opt.id}-${hashKey(JSON.stringify([opt.value, patternWidth, patternHeight, filterId]))}`
+
+			let patternId: string | null = null
+			if (layout) {
+				// Each tile shows the texture at the same size as an untiled surface would
+				const scale = getLayoutScale(pxPerMm)
+				const fill: TileFill = {
+					type: 'texture',
+					patternId: createImagePattern(svg, texturePatternId, texImg.src, {
+						x: 0,
+						y: 0,
+						width: patternWidth,
+						height: patternHeight,
+					}, filterId),
+					image: texImg,
+					imageWidthMm: patternWidth / scale,
+					imageHeightMm: patternHeight / scale,
+				}
+				patternId = createLayoutPattern(svg, elements, category, layout, fill, pxPerMm, projection, options, filterId)
+			} else if (projection) {
+				try {
+					// Plane coordinates are in mm; textures without a physical size keep their scene size
+					const tileWidthMm = opt.widthMm ?? patternWidth / (pxPerMm ?? 1)
+					const tileHeightMm = opt.heightMm ?? tileWidthMm * (imgHeight / imgWidth)
+					const getSource = () => ({
+						source: texImg,
+						sourceWidth: imgWidth,
+						sourceHeight: imgHeight,
+						tileWidthMm,
+						tileHeightMm,
+					})
+					patternId = createProjectedPattern(
+						svg,
+						elements,
+						category,
+						texturePatternId,
+						projection,
+						getSource,
+						options,
+						filterId,
+					)
+				} catch (error) {
+					if (options.strictProjection) throw new ProjectionError(category, error)
+					console.warn('[TEXTURE] Projection failed, tiling flat instead:', error)
+				}
+			}
+
+			if (!patternId) {
+				console.log(`[TEXTURE] Creating pattern with dimensions: ${patternWidth}x${patternHeight}`, {
+					imgWidth,
+					imgHeight,
+					widthMm: opt.widthMm,
+					pxPerMm,
+				})
+				patternId = createImagePattern(svg, texturePatternId, texImg.src, {
+					x: 0,
+					y: 0,
+					width: patternWidth,
+					height: patternHeight,
+				}, filterId)
+			}
+
+			applyFill(elements, `url(#${patternId})`)
+			console.log(`[TEXTURE] Successfully applied texture pattern ${patternId} to ${elements.length} element(s)`)
+		} catch (error) {
+			// Superseded by a newer update, which will draw this surface itself
+			if (isAbortError(error)) return false
+			if (error instanceof ProjectionError) throw error
+			console.error('[TEXTURE] Failed to load texture:', error, {
+				textureId: opt.id,
+				textureValue: opt.value,
+				textureUrl: getAssetUrl(opt.value),
+				errorMessage: error instanceof Error ? error.message : String(error)
+			})
+			// Fallback to gray if texture fails to load
+			elements.forEach((el) => {
+				el.setAttribute('fill', '#ccc')
+				el.style.fill = '#ccc'
+			})
+		}
+	} else {
+		console.warn(`[TEXTURE] Unknown texture type: ${opt.type}`, opt)
+		return false
+	}
+
+	// Blend the artwork's original shading back over the new material
+	const shading = getSurfaceShading(scene, category)
+	if (shading) {
+		applyShadingLayer(svg, elements, shading)
+	}
+	// Then the sheen of glossy and satin finishes
+	applyFinishLayer(svg, elements, resolveFinish(opt, getSettings(category, options)))
+	return true
+}
+
+/** Everything that decides how a surface looks; a surface is redrawn only when this changes */
+export function getSurfaceKey(
+	scene: Scene,
+	category: TextureCategory,
+	opt: TextureOption | undefined,
+	options: SceneRenderOptions = {},
+): string {
+	return JSON.stringify([
+		opt?.id,
+		opt?.type,
+		opt?.value,
+		opt?.widthMm,
+		opt?.heightMm,
+		opt?.layout,
+		opt?.finish,
+		getSettings(category, options),
+		getSceneSurface(scene, category).projection ? options.renderScale ?? 1 : null,
+	])
+}
+
+/**
+ * Redraw the surfaces whose selection changed since they were last drawn, loading their
+ * images in parallel. `applied` holds what each surface currently shows (by `getSurfaceKey`)
+ * and is kept up to date. Resolves to whether anything was redrawn.
+ */
+export async function applySelections(
+	svg: SVGSVGElement,
+	scene: Scene,
+	selections: SurfaceOptions,
+	applied: Map<TextureCategory, string>,
+	options: SceneRenderOptions = {},
+): Promise<boolean> {
+	const { signal } = options
+	const changed = Object.keys(selections).filter(
+		(category) => applied.get(category) !== getSurfaceKey(scene, category, selections[category], options),
+	)
+	if (changed.length === 0) return false
+
+	const results = await Promise.all(
+		changed.map(async (category) => {
+			const key = getSurfaceKey(scene, category, selections[category], options)
+			const drawn = await updateSurface(svg, scene, category, selections, options)
+			// Surfaces that cannot be drawn (no option, no elements) are settled too, so they
+			// are not retried until their selection changes
+			if (drawn || !signal?.aborted) applied.set(category, key)
+			return drawn
+		}),
+	)
+	if (signal?.aborted) return false
+
+	// Patterns replaced by this run are no longer referenced by any surface
+	pruneUnusedDefs(svg)
+	return results.some(Boolean)
+}
+
+/** Show the artwork with 15% padding on all sides, scaling to fit whatever size the SVG is given */
+function setPaddedViewBox(svg: SVGSVGElement, originalViewBox: string) {
+	const view = parseViewBox(originalViewBox)
+	if (view) {
+		const paddingX = view.width * 0.15
+		const paddingY = view.height * 0.15
+		svg.setAttribute('viewBox', formatViewBox({
+			x: view.x - paddingX,
+			y: view.y - paddingY,
+			width: view.width + paddingX * 2,
+			height: view.height + paddingY * 2,
+		}))
+	} else {
+		svg.setAttribute('viewBox', originalViewBox)
+	}
+
+	// Set preserve aspect ratio for responsive scaling
+	svg.setAttribute('preserveAspectRatio', 'xMidYMid meet')
+	svg.removeAttribute('width')
+	svg.removeAttribute('height')
+}
+
+// Photo scenes: the base JPG/PNG is drawn as an <image>, and every surface with a mask
+// gets a full-size rect clipped by that mask. The rects are then filled by updateSurface
+// exactly like the surface paths of an SVG scene.
+async function loadPhotoScene(svg: SVGSVGElement, scene: Scene, options: SceneRenderOptions) {
+	const { signal, loadImage: load = loadImage } = options
+	const baseImg = await load(getAssetUrl(scene.baseImageUrl), signal)
+	if (signal?.aborted) return
+	const width = baseImg.naturalWidth || baseImg.width
+	const height = baseImg.naturalHeight || baseImg.height
+	setPaddedViewBox(svg, `0 0 ${width} ${height}`)
+	svg.innerHTML = ''
+
+	const doc = svg.ownerDocument
+	const createImage = (href: string) => {
+		const image = doc.createElementNS(SVG_NS, 'image')
+		image.setAttributeNS(XLINK_NS, 'href', href)
+		image.setAttribute('href', href)
+		image.setAttribute('x', '0')
+		image.setAttribute('y', '0')
+		image.setAttribute('width', String(width))
+		image.setAttribute('height', String(height))
+		image.setAttribute('preserveAspectRatio', 'none')
+		return image
+	}
+
+	const defs = doc.createElementNS(SVG_NS, 'defs')
+	svg.appendChild(defs)
+
+	const baseImage = createImage(baseImg.src)
+	baseImage.setAttribute('id', 'scene-base-image')
+	svg.appendChild(baseImage)
+
+	// Masks are white-on-transparent, so the default luminance mask shows the
+	// surface where the mask is white and hides it where it is transparent
+	Object.entries(getSceneMasks(scene)).forEach(([category, maskUrl]) => {
+		const maskId = `scene-mask-${category}`
+		const mask = doc.createElementNS(SVG_NS, 'mask')
+		mask.setAttribute('id', maskId)
+		mask.setAttribute('maskUnits', 'userSpaceOnUse')
+		mask.setAttribute('x', '0')
+		mask.setAttribute('y', '0')
+		mask.setAttribute('width', String(width))
+		mask.setAttribute('height', String(height))
+		mask.appendChild(createImage(getAssetUrl(maskUrl)))
+		defs.appendChild(mask)
+
+		const surface = doc.createElementNS(SVG_NS, 'rect')
+		surface.setAttribute('id', `${category}-surface-mask`)
+		surface.setAttribute('x', '0')
+		surface.setAttribute('y', '0')
+		surface.setAttribute('width', String(width))
+		surface.setAttribute('height', String(height))
+		surface.setAttribute('fill', 'none')
+		surface.setAttribute('mask', `url(#${maskId})`)
+		// The photo under the mask is this surface's shading source
+		surface.setAttribute('data-shading-source', '#scene-base-image')
+		svg.appendChild(surface)
+	})
+}
+
+/** The artwork of an SVG scene, as markup; photo scenes have none */
+export async function fetchSceneSvg(scene: Scene, signal?: AbortSignal): Promise<string | null> {
+	if (isPhotoScene(scene)) return null
+	const response = await fetch(getAssetUrl(scene.baseImageUrl), { signal })
+	if (!response.ok) throw new Error(`${scene.baseImageUrl}: ${response.status}`)
+	return response.text()
+}
+
+/**
+ * Replace the content of `svg` with the scene's artwork, undrawn: the given markup for SVG
+ * scenes, the base photo and surface masks for photo scenes.
+ */
+export async function loadScene(
+	svg: SVGSVGElement,
+	scene: Scene,
+	sceneSvgText: string | null,
+	options: SceneRenderOptions = {},
+): Promise<void> {
+	if (isPhotoScene(scene)) {
+		await loadPhotoScene(svg, scene, options)
+		return
+	}
+	if (sceneSvgText === null) throw new Error(`Scene "${scene.id}" needs its SVG artwork to render`)
+
+	const Parser = svg.ownerDocument.defaultView?.DOMParser ?? DOMParser
+	const importedSvg = new Parser().parseFromString(sceneSvgText, 'image/svg+xml').documentElement
+
+	// Get original dimensions and viewBox
+	const width = importedSvg.getAttribute('width')
+	const height = importedSvg.getAttribute('height')
+	setPaddedViewBox(svg, importedSvg.getAttribute('viewBox') || (width && height ? `0 0 ${width} ${height}` : formatViewBox(DEFAULT_VIEW_BOX)))
+
+	// Clear and copy content
+	svg.innerHTML = importedSvg.innerHTML
+}
+
+/**
+ * Render a scene with the given selections into a new, detached SVG element of
+ * `document` (the page's by default). `sceneSvgText` is the artwork of SVG scenes
+ * (see fetchSceneSvg) and ignored for photo scenes.
+ */
+export async function renderScene(
+	sceneSvgText: string | null,
+	scene: Scene,
+	selections: SurfaceOptions,
+	{ document: doc = document, ...options }: SceneRenderOptions & { document?: Document } = {},
+): Promise<SVGSVGElement> {
+	const svg = doc.createElementNS(SVG_NS, 'svg')
+	svg.setAttributeNS(XMLNS_NS, 'xmlns', SVG_NS)
+	svg.setAttributeNS(XMLNS_NS, 'xmlns:xlink', XLINK_NS)
+	await loadScene(svg, scene, sceneSvgText, options)
+	await applySelections(svg, scene, selections, new Map(), options)
+	return svg
+}
+
+/**
+ * Standalone copy of a rendered scene for exports: the whole scene (even while a preview
+ * is zoomed in) at its natural size, with the namespaces a separate file needs.
+ */
+export function cloneSceneSvg(svg: SVGSVGElement): { svg: SVGSVGElement; width: number; height: number } {
+	const clone = svg.cloneNode(true) as SVGSVGElement
+	const view = parseViewBox(getHomeViewBox(svg)) ?? DEFAULT_VIEW_BOX
+	clone.setAttribute('viewBox', formatViewBox(view))
+	clone.removeAttribute(HOME_VIEW_BOX_ATTR)
+	clone.setAttribute('width', String(view.width))
+	clone.setAttribute('height', String(view.height))
+	clone.setAttributeNS(XMLNS_NS, 'xmlns', SVG_NS)
+	clone.setAttributeNS(XMLNS_NS, 'xmlns:xlink', XLINK_NS)
+	return { svg: clone, width: view.width, height: view.height }
+}
+
+/** SVG markup of a rendered scene */
+export function serializeScene(svg: SVGSVGElement): string {
+	const Serializer = svg.ownerDocument.defaultView?.XMLSerializer ?? XMLSerializer
+	return new Serializer().serializeToString(svg)
+}
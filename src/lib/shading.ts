@@ -0,0 +1,138 @@
+import type { ShadingSettings } from '../types'
+import { addGeneratedDef, escapeAttributeValue, findDef } from './svg-defs'
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+export const SHADING_CLASS = 'surface-shading'
+
+function hexLuminance(color: string): number | null {
+	const hex = color.trim().replace('#', '')
+	const full = hex.length === 3 ? hex.split('').map((c) => c + c).join('') : hex
+	if (!/^[0-9a-f]{6}$/i.test(full)) return null
+	const r = parseInt(full.substring(0, 2), 16)
+	const g = parseInt(full.substring(2, 4), 16)
+	const b = parseInt(full.substring(4, 6), 16)
+	return (0.299 * r + 0.587 * g + 0.114 * b) / 255
+}
+
+function readFill(el: Element): string {
+	const styleFill = el.getAttribute('style')?.match(/fill:\s*([^;]+)/i)?.[1]
+	return (styleFill ?? el.getAttribute('fill') ?? '').trim()
+}
+
+/**
+ * Remember the element's artwork fill (a colour or a gradient reference) before it is
+ * recolored. Only the first call per element records anything.
+ */
+export function captureOriginalFill(el: SVGElement): void {
+	if (el.hasAttribute('data-original-fill')) return
+	el.setAttribute('data-original-fill', readFill(el))
+}
+
+// Luminance of every colour an original fill paints with: one for a flat colour,
+// one per stop for a gradient
+function getFillLuminances(svg: SVGSVGElement, fill: string): number[] {
+	const ref = fill.match(/url\(\s*['"]?#([^'")]+)['"]?\s*\)/)
+	if (!ref) {
+		const luminance = hexLuminance(fill)
+		return luminance === null ? [] : [luminance]
+	}
+	const gradient = svg.querySelector(`[id="${escapeAttributeValue(ref[1])}"]`)
+	if (!gradient) return []
+	return Array.from(gradient.querySelectorAll('stop'))
+		.map((stop) => {
+			const styleColor = stop.getAttribute('style')?.match(/stop-color:\s*([^;]+)/i)?.[1]
+			return hexLuminance(styleColor ?? stop.getAttribute('stop-color') ?? '')
+		})
+		.filter((l): l is number => l !== null)
+}
+
+// Greyscale filter whose gain maps the artwork's reference luminance to neutral:
+// white for multiply, mid-grey for soft-light. Filters are shared per mode and gain.
+function getShadingFilter(svg: SVGSVGElement, mode: Exclude<ShadingSettings['mode'], 'none'>, gain: number): string {
+	const id = `shading-${mode}-${gain.toFixed(2).replace('.', '_')}`
+	if (findDef(svg, id)) return id
+
+	const doc = svg.ownerDocument
+	const filter = doc.createElementNS(SVG_NS, 'filter')
+	filter.setAttribute('id', id)
+	filter.setAttribute('color-interpolation-filters', 'sRGB')
+	const greyscale = doc.createElementNS(SVG_NS, 'feColorMatrix')
+	greyscale.setAttribute('type', 'saturate')
+	greyscale.setAttribute('values', '0')
+	filter.appendChild(greyscale)
+	const transfer = doc.createElementNS(SVG_NS, 'feComponentTransfer')
+	;['feFuncR', 'feFuncG', 'feFuncB'].forEach((name) => {
+		const func = doc.createElementNS(SVG_NS, name)
+		func.setAttribute('type', 'linear')
+		func.setAttribute('slope', gain.toFixed(2))
+		transfer.appendChild(func)
+	})
+	filter.appendChild(transfer)
+	addGeneratedDef(svg, filter)
+	return id
+}
+
+// Attributes that give a shape its outline; overlays copy only these, not ids, styles or
+// the interactive attributes of the preview
+const SHAPE_ATTRIBUTES = [
+	'd', 'points', 'x', 'y', 'width', 'height', 'rx', 'ry', 'cx', 'cy', 'r',
+	'x1', 'y1', 'x2', 'y2', 'transform', 'fill-rule', 'clip-path', 'clip-rule', 'mask',
+]
+
+/** An empty copy of a shape with the same outline, to draw an overlay on it */
+export function cloneShape(el: SVGElement): SVGElement {
+	const shape = el.ownerDocument.createElementNS(SVG_NS, el.localName) as SVGElement
+	SHAPE_ATTRIBUTES.forEach((name) => {
+		const value = el.getAttribute(name)
+		if (value !== null) shape.setAttribute(name, value)
+	})
+	return shape
+}
+
+export function removeShadingLayer(el: SVGElement): void {
+	const next = el.nextElementSibling
+	if (next?.classList.contains(SHADING_CLASS)) next.remove()
+}
+
+/**
+ * Lay a luminance copy of each element's original artwork over its new material, so
+ * gradients (or, for photo scenes, the photo's lighting) keep shading any colour.
+ * Photo surfaces name their shading source with `data-shading-source`.
+ */
+export function applyShadingLayer(svg: SVGSVGElement, elements: SVGElement[], settings: ShadingSettings): void {
+	elements.forEach((el) => {
+		removeShadingLayer(el)
+		if (settings.mode === 'none' || settings.strength <= 0) return
+
+		const photoSource = el.getAttribute('data-shading-source')
+		let layer: SVGElement
+		let gain = 1
+		if (photoSource) {
+			layer = svg.ownerDocument.createElementNS(SVG_NS, 'use')
+			layer.setAttribute('href', photoSource)
+			const mask = el.getAttribute('mask')
+			if (mask) layer.setAttribute('mask', mask)
+		} else {
+			const originalFill = el.getAttribute('data-original-fill') ?? ''
+			const luminances = getFillLuminances(svg, originalFill)
+			// Flat artwork fills carry no shading to preserve
+			if (luminances.length < 2) return
+			const reference = settings.mode === 'multiply'
+				? Math.max(...luminances)
+				: luminances.reduce((sum, l) => sum + l, 0) / luminances.length
+			if (reference <= 0) return
+			gain = settings.mode === 'multiply' ? 1 / reference : 0.5 / reference
+
+			layer = cloneShape(el)
+			layer.setAttribute('fill', originalFill)
+		}
+
+		layer.setAttribute('class', SHADING_CLASS)
+		layer.setAttribute('filter', `url(#${getShadingFilter(svg, settings.mode, gain)})`)
+		layer.setAttribute('opacity', String(Math.min(1, settings.strength)))
+		layer.setAttribute('pointer-events', 'none')
+		layer.setAttribute('aria-hidden', 'true')
+		layer.style.mixBlendMode = settings.mode
+		el.after(layer)
+	})
+}
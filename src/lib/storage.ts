@@ -1,6 +1,10 @@
-import type { SavedDesign, KitchenSelections } from '../types'
+import type { SavedDesign, KitchenSelections, KitchenSurfaceSettings, Scene, SceneLighting } from '../types'
+import { cloneSceneSvg, serializeScene } from './scene-renderer'
 
 const STORAGE_KEY = 'kitchen-preview-saved-designs'
+const RECENT_COLORS_KEY = 'kitchen-preview-recent-colors'
+const MAX_RECENT_COLORS = 12
+const PRIVATE_SCENES_KEY = 'kitchen-preview-private-scenes'
 
 export function getAllSavedDesigns(): SavedDesign[] {
 	try {
@@ -25,6 +29,8 @@ export function saveDesign(
 	sceneId: string,
 	themeId: string | null,
 	thumbnail?: string,
+	surfaceSettings?: KitchenSurfaceSettings,
+	lighting?: SceneLighting,
 ): SavedDesign {
 	const designs = getAllSavedDesigns()
 	const now = new Date().toISOString()
@@ -35,6 +41,8 @@ export function saveDesign(
 		createdAt: now,
 		updatedAt: now,
 		selections,
+		surfaceSettings,
+		lighting,
 		sceneId,
 		themeId,
 		thumbnail,
@@ -47,7 +55,7 @@ export function saveDesign(
 
 export function updateSavedDesign(
 	id: string,
-	updates: Partial<Pick<SavedDesign, 'name' | 'selections' | 'sceneId' | 'themeId' | 'thumbnail'>>,
+	updates: Partial<Pick<SavedDesign, 'name' | 'selections' | 'surfaceSettings' | 'lighting' | 'sceneId' | 'themeId' | 'thumbnail'>>,
 ): SavedDesign | null {
 	const designs = getAllSavedDesigns()
 	const index = designs.findIndex(d => d.id === id)
@@ -86,6 +94,66 @@ export function deleteAllSavedDesigns(): boolean {
 	}
 }
 
+/** Custom colours picked lately, most recent first */
+export function getRecentColors(): string[] {
+	try {
+		const data = localStorage.getItem(RECENT_COLORS_KEY)
+		return data ? (JSON.parse(data) as string[]) : []
+	} catch (error) {
+		console.error('Failed to load recent colors:', error)
+		return []
+	}
+}
+
+export function addRecentColor(color: string): string[] {
+	const colors = [color, ...getRecentColors().filter(c => c !== color)].slice(0, MAX_RECENT_COLORS)
+	try {
+		localStorage.setItem(RECENT_COLORS_KEY, JSON.stringify(colors))
+	} catch (error) {
+		console.error('Failed to save recent colors:', error)
+	}
+	return colors
+}
+
+/** Scenes made from the user's own photos, oldest first */
+export function getPrivateScenes(): Scene[] {
+	try {
+		const data = localStorage.getItem(PRIVATE_SCENES_KEY)
+		return data ? (JSON.parse(data) as Scene[]) : []
+	} catch (error) {
+		console.error('Failed to load private scenes:', error)
+		return []
+	}
+}
+
+/**
+ * Add a private scene, or replace the one with its id. Throws when the browser's storage
+ * is full, which a large photo can do.
+ */
+export function savePrivateScene(scene: Scene): Scene[] {
+	const scenes = getPrivateScenes()
+	const index = scenes.findIndex(s => s.id === scene.id)
+	if (index === -1) scenes.push(scene)
+	else scenes[index] = scene
+	localStorage.setItem(PRIVATE_SCENES_KEY, JSON.stringify(scenes))
+	return scenes
+}
+
+export function deletePrivateScene(id: string): Scene[] {
+	const scenes = getPrivateScenes().filter(s => s.id !== id)
+	localStorage.setItem(PRIVATE_SCENES_KEY, JSON.stringify(scenes))
+	return scenes
+}
+
+/** Whether this browser is logged in to the CMS on this site (Decap keeps its user in local storage) */
+export function isCmsUser(): boolean {
+	try {
+		return localStorage.getItem('decap-cms-user') !== null
+	} catch {
+		return false
+	}
+}
+
 export function generateThumbnail(svg: SVGSVGElement): Promise<string> {
 	return new Promise((resolve, reject) => {
 		const canvas = document.createElement('canvas')
@@ -95,7 +163,8 @@ export function generateThumbnail(svg: SVGSVGElement): Promise<string> {
 			return
 		}
 		
-		const svgData = new XMLSerializer().serializeToString(svg)
+		// Thumbnails show the whole scene, even while the preview is zoomed in
+		const svgData = serializeScene(cloneSceneSvg(svg).svg)
 		const img = new Image()
 		const svgBlob = new Blob([svgData], { type: 'image/svg+xml' })
 		const url = URL.createObjectURL(svgBlob)
@@ -0,0 +1,193 @@
+import type { Scene, SceneSurface, ShadingSettings, SurfaceSelector, TextureCategory } from '../types'
+import { getGroupSurfaceId, isPhotoScene, splitSurfaceId } from './content'
+import { SHADING_CLASS } from './shading'
+import { escapeAttributeValue } from './svg-defs'
+import { FINISH_CLASS } from './finishes'
+
+export const SHAPE_SELECTOR = 'path, rect, polygon, polyline, circle, ellipse'
+
+// Convert RGB/RGBA to hex
+function rgbToHex(rgb: string): string {
+	const rgbMatch = rgb.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*[\d.]+)?\)/i)
+	if (rgbMatch) {
+		const r = parseInt(rgbMatch[1]).toString(16).padStart(2, '0')
+		const g = parseInt(rgbMatch[2]).toString(16).padStart(2, '0')
+		const b = parseInt(rgbMatch[3]).toString(16).padStart(2, '0')
+		return `#${r}${g}${b}`
+	}
+	return ''
+}
+
+function normalizeHex(color: string): string {
+	const value = color.toLowerCase().trim()
+	return value.startsWith('#') ? value : `#${value}`
+}
+
+// Get the actual fill color of an element (checking all sources)
+export function getElementFillColor(element: Element): string {
+	// 0. Recolored elements keep matching by their artwork colour
+	const originalFill = element.getAttribute('data-original-fill') || ''
+	if (originalFill.startsWith('#')) {
+		return originalFill.toLowerCase()
+	}
+
+	// 1. Check fill attribute
+	const fillAttr = element.getAttribute('fill') || ''
+	if (fillAttr && fillAttr.startsWith('#')) {
+		return fillAttr.toLowerCase().trim()
+	}
+
+	// 2. Check style attribute
+	const styleAttr = element.getAttribute('style') || ''
+	if (styleAttr) {
+		// Check for fill:#color or fill: #color
+		const fillMatch = styleAttr.match(/fill:\s*(#[0-9A-Fa-f]{6}|#[0-9A-Fa-f]{3}|rgb\([^)]+\)|rgba\([^)]+\))/i)
+		if (fillMatch) {
+			const fillValue = fillMatch[1].trim().toLowerCase()
+			if (fillValue.startsWith('#')) {
+				return fillValue
+			} else if (fillValue.startsWith('rgb')) {
+				return rgbToHex(fillValue)
+			}
+		}
+	}
+
+	// 3. Check computed style (actual rendered color)
+	try {
+		const computed = element.ownerDocument.defaultView?.getComputedStyle(element)
+		if (!computed) throw new Error('Element is not in a rendered document')
+		const computedFill = computed.fill.trim()
+		if (computedFill && computedFill !== 'none' && computedFill !== 'rgb(0, 0, 0)') {
+			if (computedFill.startsWith('#')) {
+				return computedFill.toLowerCase()
+			} else if (computedFill.startsWith('rgb')) {
+				return rgbToHex(computedFill)
+			}
+		}
+	} catch {
+		// Ignore errors
+	}
+
+	// 4. Check parent element's fill (inherited)
+	const parent = element.parentElement
+	if (parent && parent.namespaceURI === 'http://www.w3.org/2000/svg') {
+		return getElementFillColor(parent)
+	}
+
+	return ''
+}
+
+function matchSelector(svg: SVGSVGElement, selector: Omit<SurfaceSelector, 'exclude'>): Set<SVGElement> {
+	const matched = new Set<SVGElement>()
+	const add = (elements: Iterable<Element>) => {
+		for (const el of elements) matched.add(el as SVGElement)
+	}
+
+	selector.ids?.forEach((id) => {
+		const el = svg.querySelector(`[id="${escapeAttributeValue(id)}"]`)
+		if (el) matched.add(el as SVGElement)
+	})
+	selector.idPrefixes?.forEach((prefix) => {
+		add(svg.querySelectorAll(`[id^="${escapeAttributeValue(prefix)}"]`))
+	})
+	selector.selectors?.forEach((css) => {
+		try {
+			add(svg.querySelectorAll(css))
+		} catch (error) {
+			console.warn(`[surfaces] Invalid CSS selector "${css}":`, error)
+		}
+	})
+
+	const fills = selector.fills?.map(normalizeHex) ?? []
+	const fillPrefixes = selector.fillPrefixes?.map(normalizeHex) ?? []
+	if (fills.length > 0 || fillPrefixes.length > 0) {
+		svg.querySelectorAll(SHAPE_SELECTOR).forEach((el) => {
+			// Shapes inside <defs> only paint through patterns, never as surfaces
+			if (el.closest('defs')) return
+			const fill = getElementFillColor(el)
+			if (!fill) return
+			if (fills.includes(fill) || fillPrefixes.some((prefix) => fill.startsWith(prefix))) {
+				matched.add(el as SVGElement)
+			}
+		})
+	}
+
+	return matched
+}
+
+/**
+ * Resolve the scene elements described by a surface selector. Matches from ids,
+ * id prefixes, CSS selectors and fill colours are combined, then anything matching
+ * `exclude` is removed. Elements are returned in document order.
+ */
+export function resolveSurfaceElements(svg: SVGSVGElement, selector: SurfaceSelector): SVGElement[] {
+	const matched = matchSelector(svg, selector)
+	if (selector.exclude) {
+		matchSelector(svg, selector.exclude).forEach((el) => matched.delete(el))
+	}
+	return Array.from(matched).filter((el) => !el.classList.contains(SHADING_CLASS) && !el.classList.contains(FINISH_CLASS)).sort((a, b) =>
+		a.compareDocumentPosition(b) & a.DOCUMENT_POSITION_FOLLOWING ? -1 : 1,
+	)
+}
+
+/**
+ * The selector for a scene surface. Scenes without an explicit mapping fall back to
+ * the `<category>-surface*` id convention used by the bundled SVGs, and to
+ * `<category>-surface-<group>*` for a group such as `cabinet.upper`.
+ */
+export function getSurfaceSelector(scene: Scene, category: TextureCategory): SurfaceSelector {
+	// Photo scenes: one masked rect per surface, created when the photo is loaded
+	if (isPhotoScene(scene)) return { ids: [`${category}-surface-mask`] }
+	const [parent, group] = splitSurfaceId(category)
+	if (group) {
+		return (
+			scene.surfaces?.[parent]?.groups?.find((g) => g.id === group) ?? {
+				idPrefixes: [`${parent}-surface-${group}`],
+			}
+		)
+	}
+	return scene.surfaces?.[category] ?? { idPrefixes: [`${category}-surface`] }
+}
+
+/**
+ * The elements painted with a category's selection. Elements claimed by one of `groups`
+ * (e.g. the upper cabinets) are left to that group, so every element is painted once.
+ */
+export function resolveCategoryElements(
+	svg: SVGSVGElement,
+	scene: Scene,
+	category: TextureCategory,
+	groups: string[] = [],
+): SVGElement[] {
+	const elements = resolveSurfaceElements(svg, getSurfaceSelector(scene, category))
+	if (groups.length === 0) return elements
+	const claimed = new Set(
+		groups.flatMap((group) =>
+			resolveSurfaceElements(svg, getSurfaceSelector(scene, getGroupSurfaceId(category, group))),
+		),
+	)
+	return elements.filter((el) => !claimed.has(el))
+}
+
+/**
+ * Rendering settings for a scene surface (everything in its mapping besides the element
+ * matching). Groups share their category's settings.
+ */
+export function getSceneSurface(scene: Scene, category: TextureCategory): SceneSurface {
+	return scene.surfaces?.[splitSurfaceId(category)[0]] ?? {}
+}
+
+/** Scene units per mm for a surface, or undefined when the scene has no physical scale. */
+export function getSurfacePxPerMm(scene: Scene, category: TextureCategory): number | undefined {
+	return getSceneSurface(scene, category).pxPerMm ?? scene.pxPerMm
+}
+
+/** Shading settings for a surface (scene settings with the surface's overrides), or null when off. */
+export function getSurfaceShading(scene: Scene, category: TextureCategory): ShadingSettings | null {
+	const override = getSceneSurface(scene, category).shading
+	if (!scene.shading && !override?.mode) return null
+	return {
+		mode: override?.mode ?? scene.shading?.mode ?? 'multiply',
+		strength: override?.strength ?? scene.shading?.strength ?? 1,
+	}
+}
@@ -0,0 +1,82 @@
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+/** Marks `<defs>` entries created by the preview, as opposed to ones shipped with the scene artwork */
+const GENERATED_ATTR = 'data-generated'
+
+export function getDefs(svg: SVGSVGElement): SVGDefsElement {
+	let defs = svg.querySelector('defs')
+	if (!defs) {
+		defs = svg.ownerDocument.createElementNS(SVG_NS, 'defs')
+		svg.insertBefore(defs, svg.firstChild)
+	}
+	return defs
+}
+
+/** Short, stable id fragment for a cache key (djb2). */
+export function hashKey(key: string): string {
+	let hash = 5381
+	for (let i = 0; i < key.length; i++) {
+		hash = ((hash << 5) + hash + key.charCodeAt(i)) | 0
+	}
+	return (hash >>> 0).toString(36)
+}
+
+/** Escape a value for a quoted attribute selector; unlike `CSS.escape`, works outside the browser */
+export function escapeAttributeValue(value: string): string {
+	return value.replace(/["\\]/g, '\\$&').replace(/\n/g, '\\a ')
+}
+
+export function findDef(svg: SVGSVGElement, id: string): Element | null {
+	return svg.querySelector(`[id="${escapeAttributeValue(id)}"]`)
+}
+
+/** Add a generated pattern (or filter) to `<defs>` so it can be pruned once nothing uses it. */
+export function addGeneratedDef(svg: SVGSVGElement, element: Element): void {
+	element.setAttribute(GENERATED_ATTR, 'true')
+	getDefs(svg).appendChild(element)
+}
+
+const URL_REF = /url\(\s*['"]?#([^'")]+)['"]?\s*\)/g
+
+function collectReferences(element: Element, into: Set<string>) {
+	;['fill', 'stroke', 'style', 'filter', 'mask'].forEach((attr) => {
+		const value = element.getAttribute(attr)
+		if (!value) return
+		for (const match of value.matchAll(URL_REF)) into.add(match[1])
+	})
+	const href = element.getAttribute('href') ?? element.getAttributeNS('http://www.w3.org/1999/xlink', 'href')
+	if (href?.startsWith('#')) into.add(href.slice(1))
+}
+
+/**
+ * Remove generated defs that no element of the scene refers to any more, following
+ * references between defs (a tile layout painting with a texture pattern keeps it alive).
+ */
+export function pruneUnusedDefs(svg: SVGSVGElement): void {
+	const generated = Array.from(svg.querySelectorAll(`[${GENERATED_ATTR}]`))
+	if (generated.length === 0) return
+
+	const live = new Set<string>()
+	svg.querySelectorAll('*').forEach((el) => {
+		if (!el.closest(`[${GENERATED_ATTR}]`)) collectReferences(el, live)
+	})
+
+	// Follow references from live generated defs to the defs they paint with
+	const pending = [...live]
+	while (pending.length > 0) {
+		const def = findDef(svg, pending.pop()!)
+		if (!def?.hasAttribute(GENERATED_ATTR)) continue
+		const nested = new Set<string>()
+		;[def, ...Array.from(def.querySelectorAll('*'))].forEach((el) => collectReferences(el, nested))
+		nested.forEach((id) => {
+			if (!live.has(id)) {
+				live.add(id)
+				pending.push(id)
+			}
+		})
+	}
+
+	generated.forEach((def) => {
+		if (!live.has(def.id)) def.remove()
+	})
+}
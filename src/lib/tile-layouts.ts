@@ -0,0 +1,331 @@
+import type { TextureCategory, TextureOption, TileLayout, TileLayoutType } from '../types'
+import { addGeneratedDef, findDef, hashKey } from './svg-defs'
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+export const TILE_LAYOUT_TYPES: { value: TileLayoutType; label: string }[] = [
+	{ value: 'grid', label: 'Square grid' },
+	{ value: 'offset', label: 'Offset / brick' },
+	{ value: 'herringbone', label: 'Herringbone' },
+	{ value: 'chevron', label: 'Chevron' },
+	{ value: 'checkerboard', label: 'Checkerboard' },
+	{ value: 'hex', label: 'Hexagon' },
+]
+
+/** Plain square floor tile used when a colour floor has no layout of its own */
+export const DEFAULT_TILE_LAYOUT: TileLayout = {
+	type: 'grid',
+	tileWidthMm: 300,
+	tileHeightMm: 300,
+	groutWidthMm: 3,
+}
+
+// Scenes without a physical scale draw the default 300 mm tile at 40 scene units
+const FALLBACK_PX_PER_MM = 40 / 300
+
+const DEFAULT_TEXTURE_GROUT = '#bdb7ad'
+
+export interface TileShape {
+	points: [number, number][]
+	/** Planks laid across the main direction (herringbone); textures are rotated to follow them */
+	rotated?: boolean
+	/** Second colour of a checkerboard */
+	alternate?: boolean
+}
+
+/** One repeating period of a layout, in mm */
+export interface TileGeometry {
+	width: number
+	height: number
+	tiles: TileShape[]
+}
+
+/** Material painted on each tile: a flat colour, or an image drawn at its physical size */
+export type TileFill =
+	| { type: 'color'; color: string }
+	| {
+			type: 'texture'
+			/** Pattern already in the SVG's defs that tiles the texture image */
+			patternId: string
+			image: CanvasImageSource
+			imageWidthMm: number
+			imageHeightMm: number
+	  }
+
+const rect = (x: number, y: number, w: number, h: number): [number, number][] => [
+	[x, y], [x + w, y], [x + w, y + h], [x, y + h],
+]
+
+const boxesOverlap = (points: [number, number][], width: number, height: number) => {
+	const xs = points.map((p) => p[0])
+	const ys = points.map((p) => p[1])
+	return Math.max(...xs) > 0 && Math.min(...xs) < width && Math.max(...ys) > 0 && Math.min(...ys) < height
+}
+
+/**
+ * Tiles of one period of the layout. Shapes may cross the period's edges; the
+ * pattern (or canvas) they are drawn into clips them, and the neighbouring period
+ * draws the remainder.
+ */
+export function getTileGeometry(layout: TileLayout): TileGeometry {
+	const w = layout.tileWidthMm
+	const h = layout.tileHeightMm
+
+	switch (layout.type) {
+		case 'offset':
+			return {
+				width: w,
+				height: h * 2,
+				tiles: [
+					{ points: rect(0, 0, w, h) },
+					{ points: rect(-w / 2, h, w, h) },
+					{ points: rect(w / 2, h, w, h) },
+				],
+			}
+		case 'checkerboard':
+			return {
+				width: w * 2,
+				height: h * 2,
+				tiles: [
+					{ points: rect(0, 0, w, h) },
+					{ points: rect(w, 0, w, h), alternate: true },
+					{ points: rect(0, h, w, h), alternate: true },
+					{ points: rect(w, h, w, h) },
+				],
+			}
+		case 'herringbone': {
+			// Planks of length w and width p on the lattice (p, p), (w, -w); the length is
+			// snapped to a whole number of widths so the pattern repeats every 2w × 2w
+			const p = h
+			const k = Math.max(1, Math.round(w / p))
+			const length = k * p
+			const period = 2 * length
+			const tiles: TileShape[] = []
+			const range = 2 * k + 2
+			for (let m = -range; m <= range; m++) {
+				for (let n = -range; n <= range; n++) {
+					const x = m * p + n * length
+					const y = m * p - n * length
+					const across = rect(x, y, length, p)
+					const along = rect(x, y + p, p, length)
+					if (boxesOverlap(across, period, period)) tiles.push({ points: across })
+					if (boxesOverlap(along, period, period)) tiles.push({ points: along, rotated: true })
+				}
+			}
+			return { width: period, height: period, tiles }
+		}
+		case 'chevron': {
+			// Columns of parallelograms rising and falling at 45°
+			const tiles: TileShape[] = []
+			const repeats = Math.ceil(w / h) + 1
+			for (let j = -repeats; j <= repeats; j++) {
+				const y = j * h
+				tiles.push({ points: [[0, y], [w, y + w], [w, y + w + h], [0, y + h]] })
+				tiles.push({ points: [[w, y + w], [2 * w, y], [2 * w, y + h], [w, y + w + h]] })
+			}
+			return { width: w * 2, height: h, tiles }
+		}
+		case 'hex': {
+			// Flat-topped hexagons, w corner to corner; alternate columns shift by half a row
+			const rowHeight = (w * Math.sqrt(3)) / 2
+			const tiles: TileShape[] = []
+			for (let col = -1; col <= 2; col++) {
+				for (let row = -1; row <= 2; row++) {
+					const cx = col * 0.75 * w
+					const cy = row * rowHeight + (Math.abs(col) % 2 === 1 ? rowHeight / 2 : 0)
+					const points: [number, number][] = []
+					for (let i = 0; i < 6; i++) {
+						const angle = (Math.PI / 3) * i
+						points.push([cx + (w / 2) * Math.cos(angle), cy + (w / 2) * Math.sin(angle)])
+					}
+					tiles.push({ points })
+				}
+			}
+			return { width: 1.5 * w, height: rowHeight, tiles }
+		}
+		case 'grid':
+		default:
+			return { width: w, height: h, tiles: [{ points: rect(0, 0, w, h) }] }
+	}
+}
+
+/** Grout colour that always reads darker than the tile colour. */
+export function getGroutColor(color: string): string {
+	const hex = color.replace('#', '')
+	const r = parseInt(hex.substring(0, 2), 16)
+	const g = parseInt(hex.substring(2, 4), 16)
+	const b = parseInt(hex.substring(4, 6), 16)
+	if ([r, g, b].some(Number.isNaN)) return DEFAULT_TEXTURE_GROUT
+
+	// Light colours get noticeably darker grout, dark colours slightly darker grout
+	const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255
+	const factor = luminance > 0.5 ? 0.7 : 0.85
+	const channel = (value: number) =>
+		Math.max(0, Math.min(255, Math.round(value * factor))).toString(16).padStart(2, '0')
+	return `#${channel(r)}${channel(g)}${channel(b)}`
+}
+
+/**
+ * The layout a surface is drawn with: the option's own layout (colour floors default to
+ * plain square tiles) with the user's adjustments on top, or null for a continuous surface.
+ */
+export function resolveTileLayout(
+	category: TextureCategory,
+	opt: TextureOption,
+	override?: Partial<TileLayout>,
+): TileLayout | null {
+	const base = opt.layout ?? (category === 'floor' && opt.type === 'color' ? DEFAULT_TILE_LAYOUT : undefined)
+	if (!base && !override?.type) return null
+
+	const adjustments = Object.fromEntries(
+		Object.entries(override ?? {}).filter(([, value]) => value !== undefined && value !== ''),
+	) as Partial<TileLayout>
+	return { ...DEFAULT_TILE_LAYOUT, ...base, ...adjustments }
+}
+
+const resolveGroutColor = (layout: TileLayout, fill: TileFill) =>
+	layout.groutColor ?? (fill.type === 'color' ? getGroutColor(fill.color) : DEFAULT_TEXTURE_GROUT)
+
+const resolveAlternateColor = (layout: TileLayout, fill: TileFill) =>
+	layout.alternateColor ?? (fill.type === 'color' ? getGroutColor(fill.color) : undefined)
+
+/** Scene units per mm for tile layouts, falling back for scenes without a scale. */
+export function getLayoutScale(pxPerMm: number | undefined): number {
+	return pxPerMm ?? FALLBACK_PX_PER_MM
+}
+
+/**
+ * SVG pattern drawing the layout in scene units, with tiles painted with the fill and
+ * outlined in grout. Patterns are keyed by their content, so identical layouts share one.
+ */
+export function createTileLayoutPattern(
+	svg: SVGSVGElement,
+	layout: TileLayout,
+	fill: TileFill,
+	pxPerMm: number | undefined,
+): string {
+	const fillKey = fill.type === 'color' ? fill.color : fill.patternId
+	const patternId = `tile-layout-${hashKey(JSON.stringify([layout, fillKey, pxPerMm]))}`
+	if (findDef(svg, patternId)) return patternId
+
+	const scale = getLayoutScale(pxPerMm)
+	const geometry = getTileGeometry(layout)
+	const groutColor = resolveGroutColor(layout, fill)
+	const alternateColor = resolveAlternateColor(layout, fill)
+
+	const doc = svg.ownerDocument
+	const pattern = doc.createElementNS(SVG_NS, 'pattern')
+	pattern.setAttribute('id', patternId)
+	pattern.setAttribute('x', '0')
+	pattern.setAttribute('y', '0')
+	pattern.setAttribute('width', String(geometry.width * scale))
+	pattern.setAttribute('height', String(geometry.height * scale))
+	pattern.setAttribute('patternUnits', 'userSpaceOnUse')
+
+	const background = doc.createElementNS(SVG_NS, 'rect')
+	background.setAttribute('width', String(geometry.width * scale))
+	background.setAttribute('height', String(geometry.height * scale))
+	background.setAttribute('fill', groutColor)
+	pattern.appendChild(background)
+
+	// Herringbone planks laid across the main direction get a rotated copy of the texture
+	let rotatedPatternId: string | null = null
+	if (fill.type === 'texture' && geometry.tiles.some((t) => t.rotated)) {
+		rotatedPatternId = `${patternId}-rotated`
+		const rotated = doc.createElementNS(SVG_NS, 'pattern')
+		rotated.setAttribute('id', rotatedPatternId)
+		rotated.setAttribute('href', `#${fill.patternId}`)
+		rotated.setAttribute('patternTransform', 'rotate(90)')
+		addGeneratedDef(svg, rotated)
+	}
+
+	geometry.tiles.forEach((tile) => {
+		const polygon = doc.createElementNS(SVG_NS, 'polygon')
+		polygon.setAttribute('points', tile.points.map(([x, y]) => `${x * scale},${y * scale}`).join(' '))
+		let tileFill = fill.type === 'color' ? fill.color : `url(#${fill.patternId})`
+		if (tile.rotated && rotatedPatternId) tileFill = `url(#${rotatedPatternId})`
+		if (tile.alternate && alternateColor) tileFill = alternateColor
+		polygon.setAttribute('fill', tileFill)
+		polygon.setAttribute('stroke', groutColor)
+		polygon.setAttribute('stroke-width', String((layout.groutWidthMm ?? 0) * scale))
+		pattern.appendChild(polygon)
+
+		// Textured checkerboards without an alternate colour shade every other tile instead
+		if (tile.alternate && !alternateColor) {
+			const shade = polygon.cloneNode() as SVGPolygonElement
+			shade.setAttribute('fill', '#000')
+			shade.setAttribute('fill-opacity', '0.18')
+			pattern.appendChild(shade)
+		}
+	})
+
+	addGeneratedDef(svg, pattern)
+	return patternId
+}
+
+/**
+ * Draw one period of the layout onto a canvas, e.g. as the source tile of a perspective
+ * projection. Returns the canvas and the period's size in mm. The canvas is created in `doc`.
+ */
+export function drawTileLayoutCanvas(
+	layout: TileLayout,
+	fill: TileFill,
+	doc: Document = document,
+	maxSide = 1024,
+): { canvas: HTMLCanvasElement; widthMm: number; heightMm: number } {
+	const geometry = getTileGeometry(layout)
+	const pxPerMm = Math.min(2, maxSide / Math.max(geometry.width, geometry.height))
+	const canvas = doc.createElement('canvas')
+	canvas.width = Math.max(1, Math.round(geometry.width * pxPerMm))
+	canvas.height = Math.max(1, Math.round(geometry.height * pxPerMm))
+	const ctx = canvas.getContext('2d')
+	if (!ctx) throw new Error('Could not get canvas context')
+	// The document's window may bring its own canvas classes, e.g. under Node
+	const view = (doc.defaultView ?? window) as Window & typeof globalThis
+
+	const groutColor = resolveGroutColor(layout, fill)
+	const alternateColor = resolveAlternateColor(layout, fill)
+	ctx.scale(canvas.width / geometry.width, canvas.height / geometry.height)
+	ctx.fillStyle = groutColor
+	ctx.fillRect(0, 0, geometry.width, geometry.height)
+
+	// Texture patterns are defined in image pixels; scale them to the image's size in mm
+	const texturePattern = (rotated: boolean) => {
+		if (fill.type !== 'texture') return null
+		const pattern = ctx.createPattern(fill.image, 'repeat')
+		if (!pattern) return null
+		const image = fill.image as { width: number; height: number }
+		let transform = new view.DOMMatrix().scale(fill.imageWidthMm / image.width, fill.imageHeightMm / image.height)
+		if (rotated) transform = new view.DOMMatrix().rotate(90).multiply(transform)
+		pattern.setTransform(transform)
+		return pattern
+	}
+	const straight = texturePattern(false)
+	const rotated = texturePattern(true)
+
+	geometry.tiles.forEach((tile) => {
+		const path = new view.Path2D()
+		tile.points.forEach(([x, y], i) => (i === 0 ? path.moveTo(x, y) : path.lineTo(x, y)))
+		path.closePath()
+
+		if (tile.alternate && alternateColor) {
+			ctx.fillStyle = alternateColor
+		} else if (fill.type === 'color') {
+			ctx.fillStyle = fill.color
+		} else {
+			ctx.fillStyle = (tile.rotated ? rotated : straight) ?? groutColor
+		}
+		ctx.fill(path)
+		if (tile.alternate && !alternateColor) {
+			ctx.fillStyle = 'rgba(0, 0, 0, 0.18)'
+			ctx.fill(path)
+		}
+		if (layout.groutWidthMm) {
+			ctx.strokeStyle = groutColor
+			ctx.lineWidth = layout.groutWidthMm
+			ctx.stroke(path)
+		}
+	})
+
+	return { canvas, widthMm: geometry.width, heightMm: geometry.height }
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react'
+import { getContent, subscribeContent, type ContentSnapshot } from './content'
+
+/** The content in use; the component re-renders when it is loaded or refreshed */
+export function useContent(): ContentSnapshot {
+	return useSyncExternalStore(subscribeContent, getContent)
+}
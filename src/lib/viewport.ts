@@ -0,0 +1,107 @@
+/** A viewBox in scene units */
+export interface ViewBox {
+	x: number
+	y: number
+	width: number
+	height: number
+}
+
+export const MIN_ZOOM = 1
+export const MAX_ZOOM = 16
+
+/** The whole scene's viewBox, kept on the SVG while it is zoomed in so exports can show all of it */
+export const HOME_VIEW_BOX_ATTR = 'data-home-view-box'
+
+export function parseViewBox(value: string | null): ViewBox | null {
+	const parts = value?.trim().split(/[\s,]+/).map(Number)
+	if (!parts || parts.length !== 4 || parts.some((n) => !Number.isFinite(n))) return null
+	const [x, y, width, height] = parts
+	return { x, y, width, height }
+}
+
+export function formatViewBox({ x, y, width, height }: ViewBox): string {
+	return `${x} ${y} ${width} ${height}`
+}
+
+/** How far `view` is zoomed into `home` (1 = the whole scene) */
+export function getZoom(view: ViewBox, home: ViewBox): number {
+	return home.width / view.width
+}
+
+/** Keep the zoom within limits and the view inside the scene */
+export function clampViewBox(view: ViewBox, home: ViewBox): ViewBox {
+	const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, getZoom(view, home)))
+	const width = home.width / zoom
+	const height = home.height / zoom
+	const cx = view.x + view.width / 2
+	const cy = view.y + view.height / 2
+	const x = Math.min(home.x + home.width - width, Math.max(home.x, cx - width / 2))
+	const y = Math.min(home.y + home.height - height, Math.max(home.y, cy - height / 2))
+	return { x, y, width, height }
+}
+
+/** Zoom by `factor` (> 1 zooms in), keeping the scene point `focus` where it is on screen */
+export function zoomViewBox(view: ViewBox, home: ViewBox, factor: number, focus: { x: number; y: number }): ViewBox {
+	const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, getZoom(view, home) * factor))
+	const scale = home.width / zoom / view.width
+	return clampViewBox(
+		{
+			x: focus.x - (focus.x - view.x) * scale,
+			y: focus.y - (focus.y - view.y) * scale,
+			width: view.width * scale,
+			height: view.height * scale,
+		},
+		home,
+	)
+}
+
+/** Move the view by a distance in scene units */
+export function panViewBox(view: ViewBox, home: ViewBox, dx: number, dy: number): ViewBox {
+	return clampViewBox({ ...view, x: view.x + dx, y: view.y + dy }, home)
+}
+
+/** The view that frames `bounds` with a margin, at the scene's aspect ratio */
+export function frameViewBox(bounds: ViewBox, home: ViewBox, margin = 0.15): ViewBox {
+	const aspect = home.width / home.height
+	let width = bounds.width * (1 + margin * 2)
+	let height = bounds.height * (1 + margin * 2)
+	if (width / height > aspect) height = width / aspect
+	else width = height * aspect
+	return clampViewBox(
+		{
+			x: bounds.x + bounds.width / 2 - width / 2,
+			y: bounds.y + bounds.height / 2 - height / 2,
+			width,
+			height,
+		},
+		home,
+	)
+}
+
+/** Scene units per screen pixel of a rendered SVG, for turning pointer movement into pans */
+export function getUnitsPerPixel(svg: SVGSVGElement, view: ViewBox): number {
+	const rect = svg.getBoundingClientRect()
+	if (rect.width === 0 || rect.height === 0) return 1
+	// preserveAspectRatio="meet": the tighter dimension decides the scale
+	return Math.max(view.width / rect.width, view.height / rect.height)
+}
+
+/** Scene coordinates of a viewport point */
+export function clientToScene(svg: SVGSVGElement, clientX: number, clientY: number): { x: number; y: number } {
+	const matrix = svg.getScreenCTM()
+	if (!matrix) return { x: clientX, y: clientY }
+	const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse())
+	return { x: point.x, y: point.y }
+}
+
+/** Show `view`, remembering `home` while zoomed in */
+export function applyViewBox(svg: SVGSVGElement, view: ViewBox, home: ViewBox): void {
+	svg.setAttribute('viewBox', formatViewBox(view))
+	if (getZoom(view, home) > MIN_ZOOM) svg.setAttribute(HOME_VIEW_BOX_ATTR, formatViewBox(home))
+	else svg.removeAttribute(HOME_VIEW_BOX_ATTR)
+}
+
+/** The viewBox of the whole scene, however far the preview is zoomed in */
+export function getHomeViewBox(svg: SVGSVGElement): string | null {
+	return svg.getAttribute(HOME_VIEW_BOX_ATTR) ?? svg.getAttribute('viewBox')
+}
@@ -1,10 +1,16 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import App from './App'
+import { SceneAuthoring } from './components/scene-authoring'
+import { isCmsUser } from './lib/storage'
 import './index.css'
 
+// Admin tool for tagging the surfaces of new scenes; not linked from the app, and only
+// opened for content editors (logged in to the CMS, or running the dev server)
+const isAuthoring = window.location.hash === '#/author' && (import.meta.env.DEV || isCmsUser())
+
 createRoot(document.getElementById('root')!).render(
 	<StrictMode>
-		<App />
+		{isAuthoring ? <SceneAuthoring /> : <App />}
 	</StrictMode>,
 )
@@ -1,16 +1,161 @@
-export type TextureCategory = 'countertop' | 'backsplash' | 'cabinet' | 'floor' | 'background'
+/**
+ * Id of a surface category from categories.json, e.g. "countertop" or "wall", or of
+ * one of its groups as "<category>.<group>", e.g. "cabinet.upper"
+ */
+export type TextureCategory = string
+
+/** Part of a category that can be given a finish of its own, e.g. the upper cabinets */
+export interface SurfaceGroup {
+	id: string
+	label: string
+}
+
+/** A kind of surface that can be given its own colour or texture */
+export interface SurfaceCategory {
+	id: TextureCategory
+	label: string
+	/** Texture selected for new designs; defaults to the category's first texture */
+	defaultTextureId?: string
+	/** Offer tile layout and grout controls for this surface */
+	tileable?: boolean
+	/** Groups follow the category's finish until they are given their own */
+	groups?: SurfaceGroup[]
+	order: number
+}
 
 export type TextureType = 'color' | 'texture'
 
+/** Sheen of a material: matte shows no highlight, satin a soft one, gloss a sharp reflection */
+export type TextureFinish = 'matte' | 'satin' | 'gloss'
+
+/** What a product's price is per: square foot, linear foot (e.g. edging) or piece (e.g. handles) */
+export type PriceUnit = 'sqft' | 'linearft' | 'each'
+
+/** Colour adjustments of a texture image, e.g. to derive another stain from an oak texture */
+export interface TextureAdjustments {
+	/** Hue rotation in degrees (-180 to 180) */
+	hue?: number
+	/** -100 (black) to 100 (twice as bright); 0 leaves the image as is */
+	brightness?: number
+	/** -100 (flat grey) to 100 (twice the contrast) */
+	contrast?: number
+	/** Colour the image is toned towards, keeping its light and dark */
+	tint?: string
+	/** How far towards the tint, 0 to 100 */
+	tintStrength?: number
+}
+
+export type TileLayoutType = 'grid' | 'offset' | 'herringbone' | 'chevron' | 'checkerboard' | 'hex'
+
+/** How a surface is cut into tiles or planks; every tile is painted with the option's colour or texture */
+export interface TileLayout {
+	type: TileLayoutType
+	/** Tile (or plank) length, in mm; hexagons are this wide corner to corner */
+	tileWidthMm: number
+	/** Tile (or plank) width, in mm; unused by hexagons */
+	tileHeightMm: number
+	/** Defaults to a darker shade of the tile colour */
+	groutColor?: string
+	groutWidthMm?: number
+	/** Second colour of a checkerboard */
+	alternateColor?: string
+}
+
 export interface TextureOption {
 	id: string
 	label: string
 	category: TextureCategory
 	type: TextureType
 	value: string
+	/** Physical width covered by the texture image, in mm */
+	widthMm?: number
+	/** Physical height covered by the texture image, in mm; derived from the image aspect ratio if omitted */
+	heightMm?: number
+	/** Lay the colour or texture out as tiles instead of a continuous surface */
+	layout?: TileLayout
+	/** Defaults to matte */
+	finish?: TextureFinish
 	order: number
+	/** Id of the content source (catalog) the option comes from; set when the catalogs are merged */
+	source?: string
+	// Product details for quotes; all optional
+	brand?: string
+	/** Product line of the brand, e.g. "Classico" */
+	collection?: string
+	sku?: string
+	/** Price per `unit`, in US dollars */
+	price?: number
+	unit?: PriceUnit
+	/** As quoted by the supplier, e.g. "In stock" or "4–6 weeks" */
+	leadTime?: string
+	tags?: string[]
+	/** E.g. "quartz" or "oak"; offered as a filter */
+	material?: string
+	/** Colour family for the filter (see catalog-filters.ts); colours derive it from their value */
+	colorFamily?: string
+	/** Higher sorts first when sorting by popularity, e.g. units sold last quarter */
+	popularity?: number
 }
 
+/**
+ * Describes which scene elements make up a surface. All matches are combined and
+ * anything matching `exclude` is removed.
+ */
+export interface SurfaceSelector {
+	/** Exact element ids */
+	ids?: string[]
+	/** Element id prefixes, e.g. "cabinet-surface-" */
+	idPrefixes?: string[]
+	/** CSS selectors evaluated inside the scene SVG */
+	selectors?: string[]
+	/** Shapes whose resolved fill is one of these hex colours */
+	fills?: string[]
+	/** Shapes whose resolved fill starts with one of these, e.g. "#f" for very light colours */
+	fillPrefixes?: string[]
+	exclude?: Omit<SurfaceSelector, 'exclude'>
+}
+
+export interface ScenePoint {
+	x: number
+	y: number
+}
+
+/**
+ * A surface drawn in perspective: a rectangular plane of `widthMm` × `depthMm`
+ * whose corners (plane origin, +width, +width+depth, +depth) land on `corners`
+ * in scene coordinates.
+ */
+export interface SurfaceProjection {
+	corners: ScenePoint[]
+	widthMm: number
+	depthMm: number
+	/** Optional row-major 3×3 plane (mm) → scene homography; overrides the one derived from `corners` */
+	homography?: number[]
+}
+
+export type ShadingMode = 'none' | 'multiply' | 'soft-light'
+
+/** How strongly the original artwork's shading is blended over a new material */
+export interface ShadingSettings {
+	mode: ShadingMode
+	/** Opacity of the shading layer, 0–1 */
+	strength: number
+}
+
+/** Surface mapping plus per-surface rendering settings */
+export interface SceneSurface extends SurfaceSelector {
+	/** Overrides the scene's `pxPerMm` for this surface (e.g. a floor drawn at a different depth) */
+	pxPerMm?: number
+	/** Warp textures onto this plane instead of tiling them flat */
+	projection?: SurfaceProjection
+	/** Overrides the scene's shading for this surface */
+	shading?: Partial<ShadingSettings>
+	/** Elements of the category's groups; defaults to the `<category>-surface-<group>*` id convention */
+	groups?: (SurfaceSelector & { id: string })[]
+}
+
+export type SceneSurfaces = Partial<Record<TextureCategory, SceneSurface>>
+
 export interface Scene {
 	id: string
 	name: string
@@ -19,36 +164,93 @@ export interface Scene {
 	maskBacksplashUrl: string
 	maskCabinetUrl: string
 	maskFloorUrl: string
+	/** Masks for further categories of photo scenes, by category id */
+	masks?: Partial<Record<TextureCategory, string>>
+	/** Surface mapping for SVG scenes; defaults to the `<category>-surface*` id convention */
+	surfaces?: SceneSurfaces
+	/** Scene units per mm, used to draw textures with a physical size at true relative scale */
+	pxPerMm?: number
+	/** Keep the original artwork's shading under recolored surfaces */
+	shading?: ShadingSettings
 	isDefault: boolean
 	order: number
+	/** The user's own photo, kept in this browser only (see getPrivateScenes) */
+	isPrivate?: boolean
 }
 
-export interface KitchenSelections {
-	countertop: string
-	backsplash: string
-	cabinet: string
-	floor: string
-	background: string
+/**
+ * Selected texture id, or inline custom colour ("#rrggbb"), per category; a group without
+ * an entry (or with '') follows its category
+ */
+export type KitchenSelections = Record<TextureCategory, string>
+
+/** Per-surface adjustments chosen alongside the selected option */
+export interface SurfaceSettings {
+	/** Overrides the option's tile layout (or adds one); e.g. a different grout colour */
+	layout?: Partial<TileLayout>
+	/** Overrides the option's finish, e.g. a satin instead of a gloss lacquer */
+	finish?: TextureFinish
+	/** Hue, brightness, contrast and tint of a texture image */
+	adjustments?: TextureAdjustments
+}
+
+export type KitchenSurfaceSettings = Partial<Record<TextureCategory, SurfaceSettings>>
+
+/** Light the preview is shown under */
+export interface SceneLighting {
+	/** Colour temperature; 6500 K (daylight) shows the scene as drawn */
+	kelvin: number
+	/** % of full brightness */
+	brightness: number
 }
 
 export interface Theme {
 	id: string
 	name: string
 	description?: string
-	countertop: string
-	backsplash: string
-	cabinet: string
-	floor: string
-	background: string
+	/** Texture ids by category; categories left out keep their default */
+	selections: KitchenSelections
 	order: number
 }
 
+/**
+ * A catalog of textures, such as a supplier's, listed in content/sources.json. Catalogs have
+ * the format of textures.json and are merged in the order they are listed.
+ */
+export interface ContentSource {
+	id: string
+	/** Supplier name shown with its options; the site's own catalog has none */
+	label: string
+	/** Site path (e.g. "content/textures.json") or absolute URL of the catalog */
+	url: string
+	/** Local copy used instead of `url` in development, e.g. a sample of a supplier's catalog */
+	standIn?: string
+	/** Prefix of the catalog's ids ("acme" makes "oak" "acme:oak"); defaults to `id` ("" for "site") */
+	namespace?: string
+	/** Entries replace those of earlier sources with the same id; otherwise the earlier ones stay */
+	override?: boolean
+	/** Defaults to true */
+	enabled?: boolean
+}
+
+/** Everything the app loads from content/*.json, one list per file */
+export interface ContentSet {
+	categories: SurfaceCategory[]
+	textures: TextureOption[]
+	scenes: Scene[]
+	themes: Theme[]
+}
+
+export type ContentFile = keyof ContentSet
+
 export interface SavedDesign {
 	id: string
 	name: string
 	createdAt: string
 	updatedAt: string
 	selections: KitchenSelections
+	surfaceSettings?: KitchenSurfaceSettings
+	lighting?: SceneLighting
 	sceneId: string
 	themeId: string | null
 	thumbnail?: string
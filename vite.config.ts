@@ -4,4 +4,10 @@ import react from '@vitejs/plugin-react'
 export default defineConfig({
 	plugins: [react()],
 	base: '/kitchen-preview/',
+	build: {
+		rollupOptions: {
+			// The CMS page is built too, for its content checks (src/admin)
+			input: { main: 'index.html', admin: 'admin/index.html' },
+		},
+	},
 })